@@ -0,0 +1,19 @@
+import { readCurriculumFiles } from '../server/curriculumFiles';
+import { validateCurriculumPacks } from '../src/services/curriculum';
+
+const { files, parseErrors } = await readCurriculumFiles();
+for (const [name, message] of Object.entries(parseErrors)) {
+  console.error(`✗ ${name}: not valid JSON (${message})`);
+}
+
+const { packs, errors } = validateCurriculumPacks(files);
+for (const [file, fileErrors] of Object.entries(errors)) {
+  console.error(`✗ ${file}`);
+  fileErrors.forEach(e => console.error(`    - ${e}`));
+}
+for (const pack of packs) {
+  const kind = pack.kind ? `, ${pack.kind}` : '';
+  console.log(`✓ ${pack.id}: ${pack.subject} (${pack.units.length} unit${pack.units.length === 1 ? '' : 's'}${kind})`);
+}
+
+if (Object.keys(parseErrors).length > 0 || Object.keys(errors).length > 0) process.exit(1);
@@ -0,0 +1,18 @@
+import { readdir, readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+export const CURRICULUM_DIR = join(import.meta.dirname, '..', 'src', 'curriculum');
+
+/** Reads every pack file in `src/curriculum`, for `validateCurriculumPacks`. */
+export async function readCurriculumFiles(): Promise<{ files: Record<string, unknown>; parseErrors: Record<string, string> }> {
+  const files: Record<string, unknown> = {};
+  const parseErrors: Record<string, string> = {};
+  for (const name of (await readdir(CURRICULUM_DIR)).filter(f => f.endsWith('.json')).sort()) {
+    try {
+      files[name] = JSON.parse(await readFile(join(CURRICULUM_DIR, name), 'utf8'));
+    } catch (err) {
+      parseErrors[name] = err instanceof Error ? err.message : String(err);
+    }
+  }
+  return { files, parseErrors };
+}
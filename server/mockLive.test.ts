@@ -0,0 +1,63 @@
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { WebSocket, type WebSocketServer } from 'ws';
+import type { MockServerMessage } from '../src/services/mockProtocol';
+import { createMockLiveServer } from './mockLive';
+
+let server: WebSocketServer;
+let url: string;
+
+beforeAll(async () => {
+  server = createMockLiveServer(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  const { port } = server.address() as AddressInfo;
+  url = `ws://localhost:${port}`;
+});
+
+afterAll(() => new Promise(resolve => server.close(resolve)));
+
+/** Connects, sends `before` ahead of the setup, and collects messages until `done` says stop. */
+function play(scenario: string, done: (messages: MockServerMessage[]) => boolean, before: string[] = []) {
+  return new Promise<MockServerMessage[]>((resolve, reject) => {
+    const socket = new WebSocket(`${url}?scenario=${scenario}`);
+    const messages: MockServerMessage[] = [];
+    socket.on('open', () => {
+      before.forEach(raw => socket.send(raw));
+      socket.send(JSON.stringify({ setup: { model: 'mock', config: {} } }));
+    });
+    socket.on('message', (raw) => {
+      messages.push(JSON.parse(raw.toString()));
+      if (done(messages)) {
+        socket.close();
+        resolve(messages);
+      }
+    });
+    socket.on('error', reject);
+  });
+}
+
+const isTurnComplete = (m: MockServerMessage) => Boolean(m.serverContent?.turnComplete);
+
+describe('mock live server', () => {
+  it('cuts the tutor off while its audio is still streaming', async () => {
+    const messages = await play('interruption', ms => ms.some(isTurnComplete));
+    const interruptedAt = messages.findIndex(m => m.serverContent?.interrupted);
+    const heardAt = messages.findIndex(m => m.serverContent?.inputTranscription);
+    expect(heardAt).toBeGreaterThan(0);
+    expect(interruptedAt).toBe(heardAt + 1);
+
+    // 4 seconds of audio is 40 chunks; the cut comes well before the last of them.
+    const chunksBefore = messages.slice(0, interruptedAt).filter(m => m.serverContent?.modelTurn).length;
+    expect(chunksBefore).toBeGreaterThan(0);
+    expect(chunksBefore).toBeLessThan(40);
+    // The rest of the sentence is never sent; the next thing is the answer to the question.
+    const next = messages.slice(interruptedAt + 1).find(m => m.serverContent?.outputTranscription);
+    expect(next?.serverContent?.outputTranscription?.text).toMatch(/^गैंडा!/);
+  }, 10000);
+
+  it('ignores messages it cannot read and carries on', async () => {
+    const junk = ['not json', 'null', '"hi"', '42', '[]', '{"setup":{}}', '{"setup":null}', '{"realtimeInput":null}', '{"toolResponse":"x"}'];
+    const messages = await play('lesson', ms => ms.some(m => m.serverContent?.outputTranscription), junk);
+    expect(messages[0]).toEqual({ setupComplete: {} });
+  }, 10000);
+});
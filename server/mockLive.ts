@@ -0,0 +1,175 @@
+import { WebSocketServer, type WebSocket } from 'ws';
+import { MOCK_ERROR_CLOSE_CODE, type MockClientMessage, type MockServerMessage } from '../src/services/mockProtocol';
+import { DEFAULT_RESUME_STEPS, SCENARIOS, type ScenarioStep } from './scenarios';
+
+const OUTPUT_SAMPLE_RATE = 24000;
+const CHUNK_MS = 100;
+
+/** A soft sine tone standing in for the tutor's voice, as 16-bit PCM chunks in base64. */
+function toneChunks(durationMs: number, frequency = 220): string[] {
+  const chunks: string[] = [];
+  const samplesPerChunk = (OUTPUT_SAMPLE_RATE * CHUNK_MS) / 1000;
+  let t = 0;
+  for (let elapsed = 0; elapsed < durationMs; elapsed += CHUNK_MS) {
+    const pcm = Buffer.alloc(samplesPerChunk * 2);
+    for (let i = 0; i < samplesPerChunk; i++, t++) {
+      pcm.writeInt16LE(Math.round(Math.sin((2 * Math.PI * frequency * t) / OUTPUT_SAMPLE_RATE) * 3000), i * 2);
+    }
+    chunks.push(pcm.toString('base64'));
+  }
+  return chunks;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function createScenarioRunner(socket: WebSocket, steps: ScenarioStep[]) {
+  let waiters: { kind: 'tool' | 'student'; resolve: () => void }[] = [];
+  let interrupted = false;
+  let callCounter = 0;
+
+  const release = (kind: 'tool' | 'student') => {
+    const ready = waiters.filter(w => w.kind === kind);
+    waiters = waiters.filter(w => w.kind !== kind);
+    ready.forEach(w => w.resolve());
+  };
+
+  const waitFor = (kind: 'tool' | 'student') => new Promise<void>(resolve => waiters.push({ kind, resolve }));
+
+  const send = (message: MockServerMessage) => {
+    if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  const runStep = async (step: ScenarioStep) => {
+    switch (step.kind) {
+      case 'wait':
+        await sleep(step.ms);
+        break;
+      case 'say': {
+        interrupted = false;
+        // Audio streams faster than it plays, so the cut can come after the last chunk has been sent.
+        const cut = step.interrupt && sleep(step.interrupt.afterMs).then(() => {
+          if (step.interrupt?.heard) send({ serverContent: { inputTranscription: { text: step.interrupt.heard } } });
+          interrupted = true;
+          send({ serverContent: { interrupted: true } });
+        });
+        const words = step.text.split(' ');
+        const chunks = toneChunks(step.audioMs ?? Math.max(600, words.length * 250));
+        // Spread the transcription over the audio the way the real server interleaves them.
+        const wordsPerChunk = Math.ceil(words.length / chunks.length);
+        for (let i = 0; i < chunks.length && !interrupted; i++) {
+          const text = words.slice(i * wordsPerChunk, (i + 1) * wordsPerChunk).join(' ');
+          send({
+            serverContent: {
+              modelTurn: { parts: [{ inlineData: { mimeType: `audio/pcm;rate=${OUTPUT_SAMPLE_RATE}`, data: chunks[i] } }] },
+              ...(text && { outputTranscription: { text: `${text} ` } }),
+            },
+          });
+          await sleep(CHUNK_MS / 2);
+        }
+        await cut;
+        break;
+      }
+      case 'hear':
+        send({ serverContent: { inputTranscription: { text: step.text } } });
+        break;
+      case 'toolCall':
+        callCounter += 1;
+        send({ toolCall: { functionCalls: [{ id: `mock-call-${callCounter}`, name: step.name, args: step.args }] } });
+        break;
+      case 'awaitToolResponse':
+        await waitFor('tool');
+        break;
+      case 'awaitStudent':
+        await waitFor('student');
+        break;
+      case 'turnComplete':
+        send({ serverContent: { turnComplete: true } });
+        break;
+      case 'raw':
+        send(step.message);
+        break;
+      case 'error':
+        socket.close(MOCK_ERROR_CLOSE_CODE, step.reason);
+        break;
+    }
+  };
+
+  return {
+    receive: (message: MockClientMessage) => {
+      if ('toolResponse' in message) release('tool');
+      if ('realtimeInput' in message) {
+        const input = message.realtimeInput;
+        if (input.text || input.media || input.audio) release('student');
+      }
+    },
+    run: async () => {
+      for (const step of steps) {
+        if (socket.readyState !== socket.OPEN) return;
+        await runStep(step);
+      }
+    },
+  };
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Checks a client message has the shape the runner reads, since any client may connect. */
+function parseClientMessage(raw: string): MockClientMessage | { error: string } {
+  let message: unknown;
+  try {
+    message = JSON.parse(raw);
+  } catch {
+    return { error: 'not JSON' };
+  }
+  if (!isObject(message)) return { error: 'not an object' };
+  if ('setup' in message) {
+    return isObject(message.setup) && isObject(message.setup.config) ? (message as MockClientMessage) : { error: 'setup has no config' };
+  }
+  if ('realtimeInput' in message) {
+    return isObject(message.realtimeInput) ? (message as MockClientMessage) : { error: 'realtimeInput is not an object' };
+  }
+  if ('toolResponse' in message) {
+    return isObject(message.toolResponse) ? (message as MockClientMessage) : { error: 'toolResponse is not an object' };
+  }
+  return { error: 'not a setup, realtimeInput or toolResponse message' };
+}
+
+/** Plays the scenario named in the `scenario` query parameter to each client that connects. */
+export function createMockLiveServer(port: number): WebSocketServer {
+  const server = new WebSocketServer({ port });
+  server.on('connection', (socket, request) => handleConnection(socket, request.url));
+  return server;
+}
+
+function handleConnection(socket: WebSocket, requestUrl = '/') {
+  const url = new URL(requestUrl, 'http://localhost');
+  const name = url.searchParams.get('scenario') || 'lesson';
+  const scenario = SCENARIOS[name];
+  if (!scenario) {
+    socket.close(MOCK_ERROR_CLOSE_CODE, `Unknown mock scenario "${name}"`);
+    return;
+  }
+
+  let runner: ReturnType<typeof createScenarioRunner> | null = null;
+  socket.on('message', (raw) => {
+    const message = parseClientMessage(raw.toString());
+    if ('error' in message) {
+      console.error(`[mock-live] ${name}: ignoring a client message (${message.error})`);
+      return;
+    }
+    if ('setup' in message) {
+      const resumed = Boolean(message.setup.config.sessionResumption?.handle);
+      console.log(`[mock-live] ${name}: setup for ${message.setup.model}${resumed ? ' (resumed)' : ''}`);
+      socket.send(JSON.stringify({ setupComplete: {} }));
+      if (message.setup.config.sessionResumption) {
+        socket.send(JSON.stringify({ sessionResumptionUpdate: { resumable: true, newHandle: `mock-${name}-${Date.now()}` } }));
+      }
+      runner = createScenarioRunner(socket, resumed ? scenario.resumeSteps ?? DEFAULT_RESUME_STEPS : scenario.steps);
+      runner.run().catch(err => console.error('[mock-live] scenario failed', err));
+      return;
+    }
+    runner?.receive(message);
+  });
+  socket.on('close', (code) => console.log(`[mock-live] ${name}: closed (${code})`));
+}
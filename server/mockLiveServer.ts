@@ -0,0 +1,9 @@
+import { createMockLiveServer } from './mockLive';
+import { SCENARIOS } from './scenarios';
+
+const PORT = Number(process.env.MOCK_LIVE_PORT || 8787);
+
+createMockLiveServer(PORT);
+
+console.log(`[mock-live] listening on ws://localhost:${PORT}`);
+console.log(`[mock-live] scenarios: ${Object.keys(SCENARIOS).join(', ')}`);
@@ -0,0 +1,161 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { readFile } from 'node:fs/promises';
+import { extname, join, normalize } from 'node:path';
+import { GoogleGenAI } from '@google/genai';
+import { LIVE_MODEL } from '../src/constants';
+import { validateCurriculumPacks } from '../src/services/curriculum';
+import { readCurriculumFiles } from './curriculumFiles';
+import { sendJson } from './http';
+import { relayTurn } from './turnRelay';
+
+try {
+  process.loadEnvFile();
+} catch {
+  // No .env file: rely on the real environment.
+}
+
+const PORT = Number(process.env.PORT || 8788);
+const API_KEY = process.env.GEMINI_API_KEY;
+const ALLOWED_ORIGINS = (process.env.ALLOWED_ORIGINS || '').split(',').map(o => o.trim()).filter(Boolean);
+const STATIC_DIR = join(import.meta.dirname, '..', 'dist');
+
+// A token only opens a session inside this window; the session itself may then run longer.
+const NEW_SESSION_WINDOW_MS = 60 * 1000;
+const SESSION_LIFETIME_MS = 30 * 60 * 1000;
+const TOKENS_PER_MINUTE = 10;
+// Turn-based lessons make one request per reply, plus one per tool call.
+const TURNS_PER_MINUTE = 30;
+const RATE_WINDOW_MS = 60 * 1000;
+
+const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript',
+  '.css': 'text/css',
+  '.svg': 'image/svg+xml',
+  '.json': 'application/json',
+  '.woff2': 'font/woff2',
+};
+
+if (!API_KEY) {
+  console.warn('[proxy] GEMINI_API_KEY is not set; token requests will fail.');
+}
+const ai = API_KEY ? new GoogleGenAI({ apiKey: API_KEY, httpOptions: { apiVersion: 'v1alpha' } }) : null;
+// Ephemeral tokens need v1alpha; plain generate calls work on the stable API, free tier included.
+const generateAi = API_KEY ? new GoogleGenAI({ apiKey: API_KEY }) : null;
+
+// The turn relay builds each lesson's instruction from the same packs the app bundles.
+const curriculum = await readCurriculumFiles();
+const { packs: curriculumPacks, errors: curriculumErrors } = validateCurriculumPacks(curriculum.files);
+for (const file of [...Object.keys(curriculum.parseErrors), ...Object.keys(curriculumErrors)]) {
+  console.warn(`[proxy] skipping curriculum pack ${file}; run \`npm run validate-curriculum\``);
+}
+
+const recentRequests = new Map<string, number[]>();
+
+function isRateLimited(client: string, bucket: string, limit: number): boolean {
+  const key = `${bucket}:${client}`;
+  const now = Date.now();
+  const recent = (recentRequests.get(key) || []).filter(t => now - t < RATE_WINDOW_MS);
+  recent.push(now);
+  recentRequests.set(key, recent);
+  return recent.length > limit;
+}
+
+// Clients that stopped calling would otherwise stay in the map for as long as the server runs.
+setInterval(() => {
+  const now = Date.now();
+  for (const [key, times] of recentRequests) {
+    if (times.every(t => now - t >= RATE_WINDOW_MS)) recentRequests.delete(key);
+  }
+}, RATE_WINDOW_MS).unref();
+
+/**
+ * API calls must come from the app: a listed origin, or the page this server (or the dev
+ * server's proxy) serves. Browsers always send Origin on POST, so a missing one means curl or a script.
+ */
+function isAllowedOrigin(req: IncomingMessage): boolean {
+  const origin = req.headers.origin;
+  if (!origin) return false;
+  if (ALLOWED_ORIGINS.length > 0) return ALLOWED_ORIGINS.includes(origin);
+  try {
+    return new URL(origin).host === req.headers.host;
+  } catch {
+    return false;
+  }
+}
+
+async function issueLiveToken(res: ServerResponse) {
+  if (!ai) {
+    sendJson(res, 500, { error: 'The server has no GEMINI_API_KEY configured.' });
+    return;
+  }
+  const now = Date.now();
+  const expiresAt = new Date(now + SESSION_LIFETIME_MS).toISOString();
+  const token = await ai.authTokens.create({
+    config: {
+      uses: 1,
+      expireTime: expiresAt,
+      newSessionExpireTime: new Date(now + NEW_SESSION_WINDOW_MS).toISOString(),
+      liveConnectConstraints: { model: LIVE_MODEL },
+    },
+  });
+  sendJson(res, 200, { token: token.name, model: LIVE_MODEL, expiresAt });
+}
+
+async function serveStatic(req: IncomingMessage, res: ServerResponse) {
+  const pathname = decodeURIComponent(new URL(req.url || '/', 'http://localhost').pathname);
+  const safePath = normalize(pathname).replace(/^(\.\.[/\\])+/, '');
+  const file = join(STATIC_DIR, safePath === '/' ? 'index.html' : safePath);
+  try {
+    const body = await readFile(file);
+    res.writeHead(200, { 'Content-Type': MIME_TYPES[extname(file)] || 'application/octet-stream' });
+    res.end(body);
+  } catch {
+    // Unknown paths fall back to the app shell.
+    try {
+      const body = await readFile(join(STATIC_DIR, 'index.html'));
+      res.writeHead(200, { 'Content-Type': MIME_TYPES['.html'] });
+      res.end(body);
+    } catch {
+      res.writeHead(404);
+      res.end('Not found. Run `npm run build` to serve the app from this server.');
+    }
+  }
+}
+
+const server = createServer(async (req, res) => {
+  try {
+    if (req.url?.startsWith('/api/')) {
+      if (!isAllowedOrigin(req)) {
+        sendJson(res, 403, { error: 'Origin not allowed.' });
+        return;
+      }
+      if (req.method === 'POST' && req.url === '/api/live-token') {
+        if (isRateLimited(req.socket.remoteAddress || 'unknown', 'token', TOKENS_PER_MINUTE)) {
+          sendJson(res, 429, { error: 'Too many session requests. Please wait a minute.' });
+          return;
+        }
+        await issueLiveToken(res);
+        return;
+      }
+      if (req.method === 'POST' && req.url === '/api/generate') {
+        if (isRateLimited(req.socket.remoteAddress || 'unknown', 'turn', TURNS_PER_MINUTE)) {
+          sendJson(res, 429, { error: 'Too many turns. Please wait a minute.' });
+          return;
+        }
+        await relayTurn(req, res, generateAi, curriculumPacks);
+        return;
+      }
+      sendJson(res, 404, { error: 'Unknown endpoint.' });
+      return;
+    }
+    await serveStatic(req, res);
+  } catch (err) {
+    console.error('[proxy] request failed', err);
+    sendJson(res, 502, { error: err instanceof Error ? err.message : 'Upstream request failed.' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`[proxy] listening on http://localhost:${PORT}`);
+});
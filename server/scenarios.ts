@@ -0,0 +1,137 @@
+import type { MockServerMessage } from '../src/services/mockProtocol';
+
+/**
+ * A scripted exchange the mock server plays back to one client. Steps run in order;
+ * `awaitToolResponse` and `awaitStudent` pause the script until the client answers.
+ * A `say` with `interrupt` is cut off `afterMs` into its audio, as when the student talks over it.
+ */
+export type ScenarioStep =
+  | { kind: 'wait'; ms: number }
+  | { kind: 'say'; text: string; audioMs?: number; interrupt?: { afterMs: number; heard?: string } }
+  | { kind: 'hear'; text: string }
+  | { kind: 'toolCall'; name: string; args: Record<string, unknown> }
+  | { kind: 'awaitToolResponse' }
+  | { kind: 'awaitStudent' }
+  | { kind: 'turnComplete' }
+  | { kind: 'raw'; message: MockServerMessage }
+  | { kind: 'error'; reason: string };
+
+export interface Scenario {
+  description: string;
+  steps: ScenarioStep[];
+  /** Played instead of `steps` when the client reconnects with a resumption handle. */
+  resumeSteps?: ScenarioStep[];
+}
+
+export const DEFAULT_RESUME_STEPS: ScenarioStep[] = [
+  { kind: 'wait', ms: 300 },
+  { kind: 'say', text: 'हामी फेरि आयौं! We are back! Let us continue.' },
+  { kind: 'turnComplete' },
+];
+
+const greeting: ScenarioStep[] = [
+  { kind: 'wait', ms: 500 },
+  { kind: 'say', text: 'नमस्ते साथी! Namaste friend! आज हामी सँगै पढौं। Let us learn together today.' },
+  { kind: 'turnComplete' },
+];
+
+export const SCENARIOS: Record<string, Scenario> = {
+  lesson: {
+    description: 'Greeting, a spoken answer from the student, a target word and praise.',
+    steps: [
+      ...greeting,
+      { kind: 'awaitStudent' },
+      { kind: 'hear', text: 'I want to learn new words.' },
+      { kind: 'say', text: 'Syabash! Let us practise a word. Now you try! Say "Butterfly".' },
+      { kind: 'toolCall', name: 'displayTargetWord', args: { word: 'Butterfly', language: 'English' } },
+      { kind: 'awaitToolResponse' },
+      { kind: 'turnComplete' },
+      { kind: 'awaitStudent' },
+      { kind: 'hear', text: 'Butterfly' },
+      { kind: 'say', text: 'शाबास! Syabash! That was perfect.' },
+      { kind: 'turnComplete' },
+    ],
+  },
+  pronunciation: {
+    description: 'Nepali and English words shown with displayTargetWord, with scored attempts.',
+    steps: [
+      ...greeting,
+      { kind: 'toolCall', name: 'displayTargetWord', args: { word: 'पुतली', language: 'Nepali' } },
+      { kind: 'awaitToolResponse' },
+      { kind: 'say', text: 'यो शब्द भन्नुहोस्: पुतली। Now you try! Say पुतली.' },
+      { kind: 'turnComplete' },
+      { kind: 'awaitStudent' },
+      { kind: 'hear', text: 'पुतली' },
+      { kind: 'toolCall', name: 'reportPronunciationResult', args: { word: 'पुतली', attempt: 1, verdict: 'close' } },
+      { kind: 'awaitToolResponse' },
+      { kind: 'say', text: 'Close! Try saying it like this: पु-त-ली.' },
+      { kind: 'turnComplete' },
+      { kind: 'awaitStudent' },
+      { kind: 'hear', text: 'पुतली' },
+      { kind: 'toolCall', name: 'reportPronunciationResult', args: { word: 'पुतली', attempt: 2, verdict: 'correct' } },
+      { kind: 'awaitToolResponse' },
+      { kind: 'say', text: 'शाबास! Syabash!' },
+      { kind: 'turnComplete' },
+      { kind: 'awaitStudent' },
+      { kind: 'toolCall', name: 'displayTargetWord', args: { word: 'Elephant', language: 'English' } },
+      { kind: 'awaitToolResponse' },
+      { kind: 'say', text: 'Syabash! Next word. Say "Elephant".' },
+      { kind: 'turnComplete' },
+    ],
+  },
+  activities: {
+    description: 'Screen tools: a multiple-choice question, a shape, counting Rupees, tracing a letter, and one bad call.',
+    steps: [
+      ...greeting,
+      { kind: 'toolCall', name: 'showMultipleChoice', args: { question: 'Which animal says "moo"?', options: ['Cow / गाई', 'Cat / बिरालो', 'Dog / कुकुर'] } },
+      { kind: 'awaitToolResponse' },
+      { kind: 'say', text: 'Which animal says moo? Tap your answer!' },
+      { kind: 'turnComplete' },
+      { kind: 'awaitStudent' },
+      { kind: 'say', text: 'Syabash! The cow says moo. Now look at this shape.' },
+      { kind: 'toolCall', name: 'showShape', args: { shape: 'triangle', showCorners: true } },
+      { kind: 'awaitToolResponse' },
+      { kind: 'say', text: 'How many corners does it have?' },
+      { kind: 'turnComplete' },
+      { kind: 'awaitStudent' },
+      { kind: 'hear', text: 'Three' },
+      { kind: 'toolCall', name: 'showCoins', args: { items: [3], askTotal: true } },
+      { kind: 'awaitToolResponse' },
+      { kind: 'toolCall', name: 'showCoins', args: { items: [10, 5, 2, 1], askTotal: true } },
+      { kind: 'awaitToolResponse' },
+      { kind: 'say', text: 'Yes, three! Now count the Rupees and type the total.' },
+      { kind: 'turnComplete' },
+      { kind: 'awaitStudent' },
+      { kind: 'say', text: 'Eighteen Rupees. शाबास! Now let us write क.' },
+      { kind: 'toolCall', name: 'showTracingExercise', args: { text: 'क' } },
+      { kind: 'awaitToolResponse' },
+      { kind: 'say', text: 'Trace क with your finger, then tap done.' },
+      { kind: 'turnComplete' },
+      { kind: 'awaitStudent' },
+      { kind: 'say', text: 'Very neat! Remember to draw the line on top last.' },
+      { kind: 'turnComplete' },
+    ],
+  },
+  interruption: {
+    description: 'The tutor is cut off mid-sentence by the student.',
+    steps: [
+      { kind: 'wait', ms: 500 },
+      {
+        kind: 'say',
+        text: 'Today we will learn about the animals that live in the forests of Nepal, like the rhino and the tiger.',
+        audioMs: 4000,
+        interrupt: { afterMs: 1200, heard: 'Wait, what is a rhino?' },
+      },
+      { kind: 'say', text: 'गैंडा! A rhino is a big animal with a horn on its nose.' },
+      { kind: 'turnComplete' },
+    ],
+  },
+  error: {
+    description: 'The connection fails shortly after the greeting; reconnecting resumes the lesson.',
+    steps: [
+      ...greeting,
+      { kind: 'wait', ms: 1500 },
+      { kind: 'error', reason: 'Internal error encountered.' },
+    ],
+  },
+};
@@ -0,0 +1,47 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { GoogleGenAI } from '@google/genai';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { validateCurriculumPacks } from '../src/services/curriculum';
+import { readCurriculumFiles } from './curriculumFiles';
+import { relayTurn } from './turnRelay';
+
+let server: Server;
+let url: string;
+
+// Stands in for Gemini: every turn gets the same short reply.
+const ai = {
+  models: { generateContent: async () => ({ candidates: [{ content: { role: 'model', parts: [{ text: 'Syabash!' }] } }] }) },
+} as unknown as Pick<GoogleGenAI, 'models'>;
+
+beforeAll(async () => {
+  const { packs } = validateCurriculumPacks((await readCurriculumFiles()).files);
+  server = createServer((req, res) => void relayTurn(req, res, ai, packs));
+  await new Promise<void>(resolve => server.listen(0, resolve));
+  url = `http://localhost:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise(resolve => server.close(resolve)));
+
+const post = (body: string) => fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body });
+
+describe('relayTurn', () => {
+  it('answers a body that is valid JSON but not a turn with a 400', async () => {
+    for (const body of ['null', 'false', '0', '"hi"', '[]']) {
+      const response = await post(body);
+      expect(response.status).toBe(400);
+      expect(await response.json()).toHaveProperty('error');
+    }
+    expect((await post('{')).status).toBe(400);
+  });
+
+  it('relays a lesson turn', async () => {
+    const response = await post(JSON.stringify({
+      lesson: { packId: 'maths', unitId: 'shapes', grade: 2 },
+      tools: [],
+      contents: [{ role: 'user', parts: [{ text: 'Namaste' }] }],
+    }));
+    expect(response.status).toBe(200);
+    expect(((await response.json()) as { content: unknown }).content).toEqual({ role: 'model', parts: [{ text: 'Syabash!' }] });
+  });
+});
@@ -0,0 +1,37 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { GoogleGenAI } from '@google/genai';
+import type { CurriculumPack } from '../src/types';
+import { TURN_MODEL } from '../src/constants';
+import { readJsonBody, sendJson } from './http';
+import { parseTurnRequest } from './turnRequest';
+
+// Only the newest turn carries a clip or photo, and the client trims the text history, so a
+// push-to-talk clip of the longest speaking turn plus a photo fits well inside this.
+export const MAX_TURN_BODY_BYTES = 4 * 1024 * 1024;
+
+/** Relays one turn of a turn-based lesson, for keys and connections that cannot use the Live API. */
+export async function relayTurn(req: IncomingMessage, res: ServerResponse, ai: Pick<GoogleGenAI, 'models'> | null, packs: CurriculumPack[]) {
+  if (!ai) {
+    sendJson(res, 500, { error: 'The server has no GEMINI_API_KEY configured.' });
+    return;
+  }
+  const body = await readJsonBody(req, res, MAX_TURN_BODY_BYTES);
+  if (!body) return;
+  const turn = parseTurnRequest(body.value, packs);
+  if ('error' in turn) {
+    sendJson(res, 400, { error: turn.error });
+    return;
+  }
+  const response = await ai.models.generateContent({
+    model: TURN_MODEL,
+    contents: turn.contents,
+    config: {
+      systemInstruction: turn.systemInstruction,
+      tools: turn.tools.length > 0 ? [{ functionDeclarations: turn.tools }] : undefined,
+    },
+  });
+  sendJson(res, 200, {
+    content: response.candidates?.[0]?.content ?? { role: 'model', parts: [] },
+    usageMetadata: response.usageMetadata,
+  });
+}
@@ -0,0 +1,153 @@
+import type { Content, FunctionDeclaration, Part } from '@google/genai';
+import type { CurriculumPack, LessonSummary, PronunciationVerdict } from '../src/types';
+import {
+  MAX_CLASSROOM_GOAL_LENGTH,
+  MAX_CLASSROOM_TOPIC_LENGTH,
+  TURN_INSTRUCTIONS,
+  TUTOR_VOICES,
+  type TurnLesson,
+} from '../src/constants';
+import { unitsForGrade } from '../src/services/curriculum';
+import { GRADES } from '../src/services/gradeLevels';
+import { MAX_TURN_CONTENTS, MAX_TURN_PARTS, MAX_TURN_TEXT_LENGTH } from '../src/services/turnHistory';
+import { LESSON_TOOL_DECLARATIONS, LESSON_TOOL_NAMES } from '../src/tools/declarations';
+
+const MAX_NAME_LENGTH = 30;
+const MAX_LABEL_LENGTH = 80;
+const MAX_WORD_LENGTH = 40;
+const MAX_HISTORY = 20;
+const MAX_REVIEW_WORDS = 20;
+const MAX_HISTORY_WORDS = 30;
+const INLINE_MIME_TYPES = ['audio/wav', 'image/jpeg', 'image/png'];
+const VERDICTS: PronunciationVerdict[] = ['correct', 'close', 'incorrect'];
+
+export interface TurnRequest {
+  systemInstruction: string;
+  contents: Content[];
+  tools: FunctionDeclaration[];
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isText = (value: unknown, max: number): value is string => typeof value === 'string' && value.trim().length > 0 && value.length <= max;
+
+const isToolName = (value: unknown): value is string => typeof value === 'string' && LESSON_TOOL_NAMES.includes(value);
+
+function parseHistory(value: unknown): LessonSummary[] | null {
+  if (!Array.isArray(value) || value.length > MAX_HISTORY) return null;
+  const history: LessonSummary[] = [];
+  for (const item of value) {
+    if (!isObject(item) || !isText(item.subject, MAX_LABEL_LENGTH) || !isText(item.unitTitle, MAX_LABEL_LENGTH) || typeof item.startedAt !== 'number') return null;
+    const words = Array.isArray(item.wordsShown) ? item.wordsShown.slice(0, MAX_HISTORY_WORDS) : [];
+    if (!words.every(w => isText(w, MAX_WORD_LENGTH))) return null;
+    history.push({ subject: item.subject, unitTitle: item.unitTitle, startedAt: item.startedAt, durationMs: 0, wordsShown: words });
+  }
+  return history;
+}
+
+/** Checks everything that ends up in the instruction; free text only where the lesson needs it, and short. */
+function parseLesson(raw: unknown, packs: CurriculumPack[]): { lesson: TurnLesson; pack: CurriculumPack } | { error: string } {
+  if (!isObject(raw)) return { error: 'Expected a lesson.' };
+  const pack = packs.find(p => p.id === raw.packId);
+  if (!pack) return { error: 'Unknown curriculum pack.' };
+  if (typeof raw.grade !== 'number' || !GRADES.includes(raw.grade)) return { error: 'Unknown grade.' };
+  const unit = unitsForGrade(pack, raw.grade).find(u => u.id === raw.unitId);
+  if (!unit) return { error: 'Unknown lesson for this grade.' };
+
+  const lesson: TurnLesson = { packId: pack.id, unitId: unit.id, grade: raw.grade };
+  if (raw.uiLanguage !== undefined) {
+    if (raw.uiLanguage !== 'en' && raw.uiLanguage !== 'ne') return { error: 'Unknown uiLanguage.' };
+    lesson.uiLanguage = raw.uiLanguage;
+  }
+  if (raw.tutorVoice !== undefined) {
+    if (raw.tutorVoice !== 'didi' && raw.tutorVoice !== 'daju') return { error: `tutorVoice must be one of ${Object.keys(TUTOR_VOICES).join(', ')}.` };
+    lesson.tutorVoice = raw.tutorVoice;
+  }
+  if (raw.student !== undefined) {
+    const student = raw.student;
+    if (!isObject(student) || !isText(student.name, MAX_NAME_LENGTH)) return { error: 'Invalid student.' };
+    if (student.preferredLanguage !== 'Nepali' && student.preferredLanguage !== 'English') return { error: 'Invalid student language.' };
+    const history = parseHistory(student.history ?? []);
+    if (!history) return { error: 'Invalid student history.' };
+    lesson.student = { name: student.name.trim(), preferredLanguage: student.preferredLanguage, history };
+  }
+  if (raw.classroom !== undefined) {
+    const plan = raw.classroom;
+    if (!isObject(plan) || !isText(plan.topic, MAX_CLASSROOM_TOPIC_LENGTH) || !isText(plan.goal, MAX_CLASSROOM_GOAL_LENGTH)) {
+      return { error: 'Invalid classroom plan.' };
+    }
+    lesson.classroom = { grade: raw.grade, topic: plan.topic.trim(), goal: plan.goal.trim() };
+  }
+  if (raw.reviewWords !== undefined) {
+    if (!Array.isArray(raw.reviewWords) || raw.reviewWords.length > MAX_REVIEW_WORDS) return { error: 'Invalid reviewWords.' };
+    const reviewWords: NonNullable<TurnLesson['reviewWords']> = [];
+    for (const w of raw.reviewWords) {
+      if (!isObject(w) || !isText(w.word, MAX_WORD_LENGTH) || !isText(w.language, MAX_WORD_LENGTH)) return { error: 'Invalid reviewWords.' };
+      const lastVerdict = VERDICTS.find(v => v === w.lastVerdict) ?? null;
+      reviewWords.push({ word: w.word, language: w.language, lastVerdict });
+    }
+    lesson.reviewWords = reviewWords;
+  }
+  return { lesson, pack };
+}
+
+/** Copies only the kinds of part a lesson sends: text, a clip or photo, and tool calls and their answers. */
+function parsePart(raw: unknown): Part | null {
+  if (!isObject(raw)) return null;
+  if (typeof raw.text === 'string') return raw.text.length <= MAX_TURN_TEXT_LENGTH ? { text: raw.text } : null;
+  if (isObject(raw.inlineData)) {
+    const { mimeType, data } = raw.inlineData;
+    if (typeof mimeType !== 'string' || !INLINE_MIME_TYPES.includes(mimeType) || typeof data !== 'string') return null;
+    return { inlineData: { mimeType, data } };
+  }
+  if (isObject(raw.functionCall)) {
+    const { id, name, args } = raw.functionCall;
+    if (!isToolName(name) || (args !== undefined && !isObject(args))) return null;
+    return { functionCall: { id: typeof id === 'string' ? id : undefined, name, args } };
+  }
+  if (isObject(raw.functionResponse)) {
+    const { id, name, response } = raw.functionResponse;
+    if (!isToolName(name) || !isObject(response)) return null;
+    return { functionResponse: { id: typeof id === 'string' ? id : undefined, name, response } };
+  }
+  return null;
+}
+
+function parseContents(raw: unknown): Content[] | null {
+  if (!Array.isArray(raw) || raw.length === 0 || raw.length > MAX_TURN_CONTENTS) return null;
+  const contents: Content[] = [];
+  for (const item of raw) {
+    if (!isObject(item) || (item.role !== 'user' && item.role !== 'model')) return null;
+    if (!Array.isArray(item.parts) || item.parts.length === 0 || item.parts.length > MAX_TURN_PARTS) return null;
+    const parts = item.parts.map(parsePart);
+    if (parts.some(p => p === null)) return null;
+    contents.push({ role: item.role, parts: parts as Part[] });
+  }
+  return contents;
+}
+
+/**
+ * Turns a client's turn request into a `generateContent` call. The instruction is built here from
+ * the curriculum, so the relay only ever runs a Sathi lesson with the Sathi tools.
+ */
+export function parseTurnRequest(body: unknown, packs: CurriculumPack[]): TurnRequest | { error: string } {
+  if (!isObject(body)) return { error: 'Expected a lesson, contents and tools.' };
+  const parsed = parseLesson(body.lesson, packs);
+  if ('error' in parsed) return parsed;
+  const unit = parsed.pack.units.find(u => u.id === parsed.lesson.unitId)!;
+
+  const contents = parseContents(body.contents);
+  if (!contents) return { error: 'contents must be the turns of the lesson: text, a voice clip, a photo or tool calls.' };
+
+  // Only the names are taken from the client; the declarations the model sees are the server's own.
+  if (!Array.isArray(body.tools)) return { error: 'Expected the lesson tools.' };
+  const tools: FunctionDeclaration[] = [];
+  for (const tool of body.tools) {
+    if (!isObject(tool) || !isToolName(tool.name)) return { error: `Unknown tool "${isObject(tool) ? String(tool.name) : tool}".` };
+    const name = tool.name;
+    if (!tools.some(t => t.name === name)) tools.push(LESSON_TOOL_DECLARATIONS.find(d => d.name === name)!);
+  }
+
+  return { systemInstruction: TURN_INSTRUCTIONS(parsed.pack, unit, parsed.lesson), contents, tools };
+}
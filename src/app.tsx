@@ -1,48 +1,320 @@
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { GoogleGenAI, Modality, type LiveServerMessage, Type, type FunctionDeclaration } from '@google/genai';
-import { Subject } from './types';
-import { SYSTEM_INSTRUCTIONS, SUBJECT_METADATA } from './constants';
-import { createBlob, decode, decodeAudioData } from './services/audioService';
-
-const displayTargetWordDeclaration: FunctionDeclaration = {
-  name: 'displayTargetWord',
-  parameters: {
-    type: Type.OBJECT,
-    description: 'Displays a specific word on the student screen for pronunciation practice.',
-    properties: {
-      word: {
-        type: Type.STRING,
-        description: 'The word to be practiced.',
-      },
-      language: {
-        type: Type.STRING,
-        description: 'The language of the word (English or Nepali).',
-      },
-    },
-    required: ['word', 'language'],
-  },
-};
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import {
+  type ClassroomPlan,
+  type Message,
+  type CompletedLesson,
+  type CurriculumPack,
+  type CurriculumUnit,
+  type EarnedBadge,
+  type PronunciationResults,
+  type SafetyEvent,
+  type StudentProfile,
+  type StudentRewards,
+  type TargetWord,
+} from './types';
+import {
+  SAFETY_BLOCKED_NOTE,
+  SYSTEM_INSTRUCTIONS,
+  TEACHER_PAUSE_NOTE,
+  TEACHER_RESUME_NOTE,
+  TEACHER_WORD_NOTE,
+  TURN_START_NOTE,
+  TURN_SWITCH_NOTE,
+  TUTOR_VOICES,
+  WRAP_UP_NOTE,
+  type TurnLesson,
+} from './constants';
+import { loadCurriculumPacks } from './curriculum';
+import { isPronunciationPack } from './services/curriculum';
+import { CAPTURE_SAMPLE_RATE, startMicCapture, type MicCapture } from './services/audioCapture';
+import { createAudioPlayer, SLOW_SPEECH_RATE, type AudioPlayer } from './services/audioPlayer';
+import { addStudentMessage, addTypedMessage, appendTranscription, completeTurn, interruptModelTurn } from './services/conversationLog';
+import { createTransport } from './services/liveTransport';
+import { isFatalSessionError, startLiveSession, type LiveSession, type LiveSessionHandlers } from './services/liveSession';
+import { startTurnSession } from './services/turnSession';
+import { createSpeaker, type Speaker } from './services/speechOutput';
+import { attemptsFor, recordPronunciationAttempt } from './services/pronunciationResults';
+import { addShownWord, applyAttempt, dueCards, loadDeck, saveDeck, type WordDeck } from './services/wordDeck';
+import { addLessonToProfile, createProfile, loadProfiles, updateProfile, type NewProfileInput } from './services/profiles';
+import { buildLessonRecord, saveLessonRecord } from './services/lessonRecords';
+import { addMasteredWord, addStar, earnBadges, emptyRewards, recordLearningDay } from './services/rewards';
+import { buildRecording, saveRecording } from './services/recordings';
+import { createSessionRecorder, type SessionRecorder } from './services/sessionRecorder';
+import { base64Bytes, createDiagnostics } from './services/diagnostics';
+import type { ImageBlob } from './services/cameraCapture';
+import { buildSafetyRules, createSafetyEvent, findViolations, sanitizeMessages, type SafetyRule } from './services/safety';
+import { DEFAULT_GRADE } from './services/gradeLevels';
+import { DEFAULT_SETTINGS, loadSettings, saveSettings, type AppSettings } from './services/settings';
+import { runToolCall, toolDeclarations, type ToolCard } from './tools';
+import { createI18n, I18nContext } from './i18n';
+import CameraPanel from './components/CameraPanel';
+import ClassroomSetup from './components/ClassroomSetup';
+import ClassroomView from './components/ClassroomView';
+import ConversationLog from './components/ConversationLog';
+import Dashboard from './components/Dashboard';
+import DiagnosticsPanel from './components/DiagnosticsPanel';
+import LessonReview from './components/LessonReview';
+import LessonToolCard from './components/LessonToolCard';
+import MicButton from './components/MicButton';
+import PlaybackControls from './components/PlaybackControls';
+import PasscodeGate from './components/PasscodeGate';
+import SessionCountdown from './components/SessionCountdown';
+import SettingsPanel from './components/SettingsPanel';
+import StarBurst from './components/StarBurst';
+import ProfilePicker from './components/ProfilePicker';
+import SubjectPicker from './components/SubjectPicker';
+import TargetWordCard from './components/TargetWordCard';
+import TeacherControls from './components/TeacherControls';
+
+const curriculumPacks = loadCurriculumPacks();
+
+// The tutor gets this long to say goodbye before the time limit ends the lesson.
+const WRAP_UP_LEAD_MS = 60 * 1000;
+// Five quick taps on the logo open the diagnostics panel; children are unlikely to find it.
+const DIAGNOSTICS_TAPS = 5;
+const DIAGNOSTICS_TAP_WINDOW_MS = 3000;
+
+type AdminScreen = 'dashboard' | 'settings' | 'classroom';
+type LessonMode = 'live' | 'turns';
 
 const App: React.FC = () => {
-  const [selectedSubject, setSelectedSubject] = useState<Subject | null>(null);
+  const [profiles, setProfiles] = useState<StudentProfile[] | null>(null);
+  const [activeProfile, setActiveProfile] = useState<StudentProfile | null>(null);
+  const [selectedPack, setSelectedPack] = useState<CurriculumPack | null>(null);
+  const [selectedUnit, setSelectedUnit] = useState<CurriculumUnit | null>(null);
   const [isActive, setIsActive] = useState(false);
-  const [userTranscription, setUserTranscription] = useState('');
-  const [modelTranscription, setModelTranscription] = useState('');
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [completedLesson, setCompletedLesson] = useState<CompletedLesson | null>(null);
   const [isConnecting, setIsConnecting] = useState(false);
+  const [isReconnecting, setIsReconnecting] = useState(false);
   const [isMuted, setIsMuted] = useState(false);
-  const [targetWord, setTargetWord] = useState<{ word: string; language: string } | null>(null);
+  const [targetWord, setTargetWord] = useState<TargetWord | null>(null);
+  const [pronunciation, setPronunciation] = useState<PronunciationResults>({});
+  const [toolCard, setToolCard] = useState<ToolCard | null>(null);
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
   const [inputText, setInputText] = useState('');
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  const [adminView, setAdminView] = useState<{ screen: AdminScreen; unlocked: boolean } | null>(null);
+  const [sessionEndsAt, setSessionEndsAt] = useState<number | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [canReplay, setCanReplay] = useState(false);
+  const [lessonMode, setLessonMode] = useState<LessonMode>('live');
+  const [isHolding, setIsHolding] = useState(false);
+  const [turnError, setTurnError] = useState<string | null>(null);
+  const [diagnostics] = useState(createDiagnostics);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const [starAward, setStarAward] = useState<{ id: number; reason: string; total: number; badges: EarnedBadge[] } | null>(null);
+  const [classroom, setClassroom] = useState<ClassroomPlan | null>(null);
+  const [isPaused, setIsPaused] = useState(false);
 
   // Refs for audio processing
-  const inputAudioCtxRef = useRef<AudioContext | null>(null);
-  const outputAudioCtxRef = useRef<AudioContext | null>(null);
-  const sessionRef = useRef<any>(null);
-  const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
-  const nextStartTimeRef = useRef(0);
+  const micCaptureRef = useRef<MicCapture | null>(null);
+  const playerRef = useRef<AudioPlayer | null>(null);
+  // Reads replies aloud in turn-by-turn mode, which has no tutor audio.
+  const speakerRef = useRef<Speaker | null>(null);
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const sessionRef = useRef<LiveSession | null>(null);
   const micStreamRef = useRef<MediaStream | null>(null);
   const isMutedRef = useRef(false);
+  const lessonStartedAtRef = useRef<number | null>(null);
+  const messagesRef = useRef<Message[]>([]);
+  const targetWordRef = useRef<TargetWord | null>(null);
+  const pronunciationRef = useRef<PronunciationResults>({});
+  const wordsShownRef = useRef<string[]>([]);
+  const deckRef = useRef<WordDeck>({});
+  const rewardsRef = useRef<StudentRewards>(emptyRewards());
+  const lessonStarsRef = useRef(0);
+  const logoTapsRef = useRef<number[]>([]);
+  const safetyRulesRef = useRef<SafetyRule[]>([]);
+  const safetyEventsRef = useRef<SafetyEvent[]>([]);
+  // Text of the current turn per role, so a rule split across transcription chunks still matches.
+  const turnTextRef = useRef<Record<Message['role'], string>>({ user: '', model: '' });
+  const turnFlagsRef = useRef(new Set<string>());
+  // Set while the rest of a blocked tutor turn is still arriving; its audio and text are dropped.
+  const suppressTutorRef = useRef(false);
+  const sessionTimersRef = useRef<ReturnType<typeof setTimeout>[]>([]);
+  const lessonModeRef = useRef<LessonMode>('live');
+  const isHoldingRef = useRef(false);
+  // Set once the server key is refused by the Live API, so later lessons go straight to turn-by-turn mode.
+  const liveUnavailableRef = useRef(false);
+  // The student, or the whole class in classroom mode, whose lesson is running.
+  const lessonProfileRef = useRef<StudentProfile | null>(null);
+  // A class has no words, stars or history of its own to keep between lessons.
+  const classroomRef = useRef<ClassroomPlan | null>(null);
+  // While the teacher has paused the tutor, its replies are dropped.
+  const pausedRef = useRef(false);
+
+  const safetyRules = useMemo(() => buildSafetyRules(settings.blockedTerms), [settings.blockedTerms]);
+  const visibleMessages = useMemo(() => sanitizeMessages(messages, safetyRules), [messages, safetyRules]);
+  const i18n = useMemo(
+    () => createI18n(settings.uiLanguage, settings.nepaliNumerals),
+    [settings.uiLanguage, settings.nepaliNumerals],
+  );
+  const { t } = i18n;
+
+  const updateDeck = (profileId: string, update: (deck: WordDeck) => WordDeck) => {
+    deckRef.current = update(deckRef.current);
+    if (classroomRef.current) return;
+    saveDeck(profileId, deckRef.current).catch(err => console.error('Could not save word deck:', err));
+  };
+
+  useEffect(() => {
+    loadProfiles()
+      .then(setProfiles)
+      .catch((err) => {
+        console.error('Could not load profiles:', err);
+        setProfiles([]);
+      });
+  }, []);
+
+  useEffect(() => {
+    loadSettings()
+      .then(setSettings)
+      .catch(err => console.error('Could not load settings:', err));
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = settings.uiLanguage;
+  }, [settings.uiLanguage]);
+
+  useEffect(() => {
+    messagesRef.current = messages;
+  }, [messages]);
+
+  useEffect(() => {
+    pronunciationRef.current = pronunciation;
+  }, [pronunciation]);
+
+  /** Applies a reward change, saves it on the profile straight away and returns any new badges. */
+  const updateRewards = (profile: StudentProfile, update: (rewards: StudentRewards) => StudentRewards): EarnedBadge[] => {
+    const { rewards, earned } = earnBadges(update(rewardsRef.current));
+    rewardsRef.current = rewards;
+    if (classroomRef.current) return earned;
+    setActiveProfile(current => (current?.id === profile.id ? { ...current, rewards } : current));
+    setProfiles(prev => prev && prev.map(p => (p.id === profile.id ? { ...p, rewards } : p)));
+    updateProfile({ ...profile, rewards }).catch(err => console.error('Could not save rewards:', err));
+    return earned;
+  };
+
+  const celebrate = (reason: string, badges: EarnedBadge[]) => {
+    setStarAward(prev => ({ id: (prev?.id ?? 0) + 1, reason, total: rewardsRef.current.stars, badges }));
+  };
+
+  const handleSaveSettings = async (next: AppSettings) => {
+    await saveSettings(next);
+    setSettings(next);
+  };
+
+  /** For the settings students change themselves, outside the PIN-protected panel. */
+  const updateSettings = (changes: Partial<AppSettings>) => {
+    const next: AppSettings = { ...settings, ...changes };
+    setSettings(next);
+    saveSettings(next).catch(err => console.error('Could not save settings:', err));
+  };
+
+  const toggleLanguage = () => updateSettings({ uiLanguage: settings.uiLanguage === 'ne' ? 'en' : 'ne' });
+
+  const handleSlowChange = (slowSpeech: boolean) => {
+    updateSettings({ slowSpeech });
+    playerRef.current?.setRate(slowSpeech ? SLOW_SPEECH_RATE : 1);
+    speakerRef.current?.setRate(slowSpeech ? SLOW_SPEECH_RATE : 1);
+  };
+
+  const handleVolumeChange = (volume: number) => {
+    updateSettings({ volume });
+    playerRef.current?.setVolume(volume);
+    speakerRef.current?.setVolume(volume);
+  };
+
+  const replayTutor = () => {
+    if (speakerRef.current) speakerRef.current.replayLast();
+    else playerRef.current?.replayLastTurn();
+  };
+
+  const handleLogoTap = () => {
+    const now = Date.now();
+    logoTapsRef.current = [...logoTapsRef.current.filter(at => now - at < DIAGNOSTICS_TAP_WINDOW_MS), now];
+    if (logoTapsRef.current.length >= DIAGNOSTICS_TAPS) {
+      logoTapsRef.current = [];
+      setShowDiagnostics(show => !show);
+    }
+  };
+
+  const handleCreateProfile = async (input: NewProfileInput) => {
+    const profile = await createProfile(input);
+    setProfiles(prev => [profile, ...(prev || [])]);
+    setActiveProfile(profile);
+  };
+
+  /** Builds the finished lesson from refs, so it also works from inside session callbacks. */
+  const endLesson = (
+    profile: StudentProfile,
+    pack: CurriculumPack,
+    unit: CurriculumUnit,
+    endReason?: CompletedLesson['endReason'],
+  ): CompletedLesson | null => {
+    if (lessonStartedAtRef.current === null) return null;
+    const lesson: CompletedLesson = {
+      subject: pack.subject,
+      unitTitle: unit.title,
+      startedAt: lessonStartedAtRef.current,
+      endedAt: Date.now(),
+      messages: sanitizeMessages(completeTurn(messagesRef.current), safetyRulesRef.current),
+      pronunciation: pronunciationRef.current,
+      wordsShown: wordsShownRef.current,
+      safetyEvents: safetyEventsRef.current,
+      endReason,
+    };
+    lessonStartedAtRef.current = null;
+
+    // The class shows up in the dashboard by its lesson records; it has no profile to update.
+    if (!classroomRef.current) {
+      rewardsRef.current = earnBadges(recordLearningDay(rewardsRef.current, lesson.endedAt), lesson.endedAt).rewards;
+      const updated = addLessonToProfile({ ...profile, rewards: rewardsRef.current }, lesson);
+      setActiveProfile(current => (current?.id === updated.id ? updated : current));
+      setProfiles(prev => prev && prev.map(p => (p.id === updated.id ? updated : p)));
+      updateProfile(updated).catch(err => console.error('Could not save profile:', err));
+    }
+    saveLessonRecord(buildLessonRecord(profile, lesson)).catch(err => console.error('Could not save lesson record:', err));
+
+    const recorder = recorderRef.current;
+    recorderRef.current = null;
+    recorder?.finish()
+      .then(audio => saveRecording(buildRecording(profile, lesson, audio)))
+      .catch(err => console.error('Could not save recording:', err));
+    return lesson;
+  };
+
+  /** Checks a student or tutor turn against the safety rules; each rule is logged once per turn. */
+  const checkSafety = (role: Message['role'], text: string) => {
+    turnTextRef.current[role] += text;
+    for (const rule of findViolations(turnTextRef.current[role], role, safetyRulesRef.current)) {
+      const key = `${role}:${rule.id}`;
+      if (turnFlagsRef.current.has(key)) continue;
+      turnFlagsRef.current.add(key);
+      safetyEventsRef.current = [...safetyEventsRef.current, createSafetyEvent(rule, role)];
+      if (role === 'model' && !suppressTutorRef.current) {
+        suppressTutorRef.current = true;
+        playerRef.current?.interrupt();
+        speakerRef.current?.cancel();
+        recorderRef.current?.interruptTutor();
+        setMessages(prev => interruptModelTurn(prev));
+        sessionRef.current?.sendText(SAFETY_BLOCKED_NOTE);
+      }
+    }
+  };
+
+  const resetTurnSafety = (roles: Message['role'][] = ['user', 'model']) => {
+    for (const role of roles) {
+      turnTextRef.current[role] = '';
+      for (const key of [...turnFlagsRef.current]) {
+        if (key.startsWith(`${role}:`)) turnFlagsRef.current.delete(key);
+      }
+    }
+    if (roles.includes('model')) suppressTutorRef.current = false;
+  };
 
   const toggleMute = () => {
     const nextMuted = !isMuted;
@@ -50,194 +322,410 @@ const App: React.FC = () => {
     isMutedRef.current = nextMuted;
   };
 
+  /** Push-to-talk for turn-by-turn mode: the clip is sent when the button is let go. */
+  const startTalking = () => {
+    speakerRef.current?.cancel();
+    setTurnError(null);
+    isHoldingRef.current = true;
+    setIsHolding(true);
+    setIsMuted(false);
+    isMutedRef.current = false;
+  };
+
+  const stopTalking = () => {
+    if (!isHoldingRef.current) return;
+    isHoldingRef.current = false;
+    setIsHolding(false);
+    setIsMuted(true);
+    isMutedRef.current = true;
+    // Give the capture worklet a frame to hand over the last of the speech.
+    setTimeout(() => {
+      diagnostics.speechEnded();
+      sessionRef.current?.endAudioStream();
+    }, 150);
+  };
+
   const stopSession = useCallback(() => {
-    if (sessionRef.current) {
-      try {
-        sessionRef.current.close();
-      } catch (e) {}
-    }
+    if (sessionRef.current) diagnostics.connection('closed');
+    sessionRef.current?.close();
+    sessionTimersRef.current.forEach(clearTimeout);
+    sessionTimersRef.current = [];
+    setSessionEndsAt(null);
+    setIsRecording(false);
+    setCanReplay(false);
+    setLessonMode('live');
+    lessonModeRef.current = 'live';
+    setIsHolding(false);
+    isHoldingRef.current = false;
+    setTurnError(null);
+    setStarAward(null);
+    setClassroom(null);
+    classroomRef.current = null;
+    setIsPaused(false);
+    pausedRef.current = false;
+    lessonProfileRef.current = null;
     setIsActive(false);
     setIsConnecting(false);
+    setIsReconnecting(false);
     setIsMuted(false);
     isMutedRef.current = false;
     setTargetWord(null);
+    targetWordRef.current = null;
+    setToolCard(null);
+    setIsCameraOpen(false);
     setInputText('');
     
     // Cleanup audio
-    if (inputAudioCtxRef.current) inputAudioCtxRef.current.close().catch(() => {});
-    if (outputAudioCtxRef.current) outputAudioCtxRef.current.close().catch(() => {});
+    micCaptureRef.current?.stop();
+    playerRef.current?.close();
+    speakerRef.current?.cancel();
     if (micStreamRef.current) {
       micStreamRef.current.getTracks().forEach(track => track.stop());
     }
     
-    inputAudioCtxRef.current = null;
-    outputAudioCtxRef.current = null;
+    micCaptureRef.current = null;
+    playerRef.current = null;
+    speakerRef.current = null;
+    recorderRef.current = null;
     micStreamRef.current = null;
     sessionRef.current = null;
-  }, []);
+  }, [diagnostics]);
 
-  const handleApiKeySelection = async () => {
-    try {
-      // @ts-ignore
-      const hasKey = await window.aistudio.hasSelectedApiKey();
-      if (!hasKey) {
-        // @ts-ignore
-        await window.aistudio.openSelectKey();
-      }
-      return true;
-    } catch (e) {
-      console.error("API Key selection failed", e);
-      return false;
+  const finishLesson = () => {
+    const profile = lessonProfileRef.current;
+    if (profile && selectedPack && selectedUnit) {
+      setCompletedLesson(endLesson(profile, selectedPack, selectedUnit));
+    }
+    stopSession();
+  };
+
+  const showWord = (profileId: string, target: TargetWord) => {
+    targetWordRef.current = target;
+    setTargetWord(target);
+    updateDeck(profileId, deck => addShownWord(deck, target));
+    if (!wordsShownRef.current.includes(target.word)) wordsShownRef.current = [...wordsShownRef.current, target.word];
+  };
+
+  /** Classroom mode: stops the tutor mid-sentence and keeps it quiet until the teacher lets it go on. */
+  const togglePause = () => {
+    const paused = !pausedRef.current;
+    pausedRef.current = paused;
+    setIsPaused(paused);
+    if (paused) {
+      playerRef.current?.interrupt();
+      speakerRef.current?.cancel();
+      recorderRef.current?.interruptTutor();
+      setMessages(prev => interruptModelTurn(prev));
+      isHoldingRef.current = false;
+      setIsHolding(false);
+      setIsMuted(true);
+      isMutedRef.current = true;
+      sessionRef.current?.sendText(TEACHER_PAUSE_NOTE);
+    } else {
+      // Turn-by-turn lessons keep the mic closed until the talk button is held.
+      const muted = lessonModeRef.current === 'turns';
+      setIsMuted(muted);
+      isMutedRef.current = muted;
+      sessionRef.current?.sendText(TEACHER_RESUME_NOTE(targetWordRef.current));
     }
   };
 
+  const pushWord = (target: TargetWord) => {
+    const profile = lessonProfileRef.current;
+    if (!profile) return;
+    showWord(profile.id, target);
+    // A paused tutor hears about the word when the lesson goes on.
+    if (!pausedRef.current) sessionRef.current?.sendText(TEACHER_WORD_NOTE(target));
+  };
+
   const handleSendMessage = () => {
     if (!inputText.trim() || !sessionRef.current) return;
     
     const textToSend = inputText.trim();
-    sessionRef.current.sendRealtimeInput({
-      text: textToSend
-    });
+    checkSafety('user', textToSend);
+    sessionRef.current.sendText(textToSend);
     
-    setUserTranscription(prev => prev + ` [Typed: ${textToSend}]`);
+    setMessages(prev => addTypedMessage(completeTurn(prev), textToSend));
     setInputText('');
   };
 
-  const startSession = async (subject: Subject) => {
-    if (isConnecting) return;
+  const handleToolAnswer = (text: string) => {
+    if (!sessionRef.current) return;
+    sessionRef.current.sendText(text);
+    setMessages(prev => addStudentMessage(completeTurn(prev), text, 'tap'));
+  };
+
+  const handleToolImage = (image: ImageBlob, text: string) => {
+    if (!sessionRef.current) return;
+    sessionRef.current.sendImage(image);
+    sessionRef.current.sendText(text);
+    setMessages(prev => addStudentMessage(completeTurn(prev), text, 'tap'));
+  };
+
+  const handlePhoto = (image: ImageBlob) => {
+    if (!sessionRef.current) return;
+    const note = t('camera.photoNote');
+    sessionRef.current.sendImage(image);
+    sessionRef.current.sendText(note);
+    setMessages(prev => addStudentMessage(completeTurn(prev), note, 'photo'));
+  };
+
+  const startSession = async (pack: CurriculumPack, unit: CurriculumUnit, plan: ClassroomPlan | null = null) => {
+    const profile: StudentProfile | null = plan
+      ? {
+          id: `classroom-${plan.grade}`,
+          name: t('classroom.className', { grade: plan.grade }),
+          grade: plan.grade,
+          preferredLanguage: 'Nepali',
+          avatar: '🏫',
+          createdAt: Date.now(),
+          history: [],
+        }
+      : activeProfile;
+    if (isConnecting || !profile) return;
+    lessonProfileRef.current = profile;
+    classroomRef.current = plan;
+    setClassroom(plan);
+    setIsPaused(false);
+    pausedRef.current = false;
     setIsConnecting(true);
     setErrorMsg(null);
-    setSelectedSubject(subject);
+    setSelectedPack(pack);
+    setSelectedUnit(unit);
     setIsMuted(false);
     isMutedRef.current = false;
     setTargetWord(null);
-    setUserTranscription('');
-    setModelTranscription('');
-
-    // Pre-check for API key selection
-    await handleApiKeySelection();
+    targetWordRef.current = null;
+    setToolCard(null);
+    setMessages([]);
+    setPronunciation({});
+    wordsShownRef.current = [];
+    rewardsRef.current = profile.rewards ?? emptyRewards();
+    lessonStarsRef.current = 0;
+    setCompletedLesson(null);
+    lessonStartedAtRef.current = null;
+    safetyRulesRef.current = safetyRules;
+    safetyEventsRef.current = [];
+    resetTurnSafety();
+    const sessionLimitMs = settings.maxSessionMinutes * 60 * 1000;
+    diagnostics.connection('connecting');
 
     try {
-      const ai = new GoogleGenAI({ apiKey: import.meta.env.VITE_GEMINI_API_KEY });
-      
-      inputAudioCtxRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-      outputAudioCtxRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+      playerRef.current = createAudioPlayer(24000, {
+        volume: settings.volume,
+        rate: settings.slowSpeech ? SLOW_SPEECH_RATE : 1,
+        onUnderrun: diagnostics.underrun,
+      });
       
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
       micStreamRef.current = stream;
 
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-12-2025',
-        config: {
-          responseModalities: [Modality.AUDIO],
-          systemInstruction: SYSTEM_INSTRUCTIONS(subject),
-          tools: [{ functionDeclarations: [displayTargetWordDeclaration] }],
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } },
+      deckRef.current = plan ? {} : await loadDeck(profile.id).catch((err) => {
+        console.error('Could not load word deck:', err);
+        return {};
+      });
+      const reviewWords = isPronunciationPack(pack) ? dueCards(deckRef.current) : [];
+      const turnLesson: TurnLesson = {
+        packId: pack.id,
+        unitId: unit.id,
+        grade: profile.grade,
+        student: plan ? undefined : { name: profile.name, preferredLanguage: profile.preferredLanguage, history: profile.history },
+        classroom: plan ?? undefined,
+        reviewWords: reviewWords.map(({ word, language, lastVerdict }) => ({ word, language, lastVerdict })),
+        uiLanguage: settings.uiLanguage,
+        tutorVoice: settings.tutorVoice,
+      };
+      const systemInstruction = SYSTEM_INSTRUCTIONS(pack, unit, { ...turnLesson, student: plan ? undefined : profile });
+
+      const beginLesson = () => {
+        lessonStartedAtRef.current = Date.now();
+        setSessionEndsAt(lessonStartedAtRef.current + sessionLimitMs);
+        if (settings.recordLessons) {
+          recorderRef.current = createSessionRecorder(lessonStartedAtRef.current);
+          setIsRecording(true);
+        }
+        sessionTimersRef.current = [
+          setTimeout(() => sessionRef.current?.sendText(WRAP_UP_NOTE), sessionLimitMs - WRAP_UP_LEAD_MS),
+          setTimeout(() => {
+            setCompletedLesson(endLesson(profile, pack, unit, 'time-limit'));
+            stopSession();
+          }, sessionLimitMs),
+        ];
+        setIsActive(true);
+        setIsConnecting(false);
+
+        startMicCapture(stream, {
+          onAudio: (blob) => {
+            diagnostics.audioSent(base64Bytes(blob.data));
+            sessionRef.current?.sendAudio(blob);
           },
-          // Enabling transcription for a better visual experience
-          inputAudioTranscription: {},
-          outputAudioTranscription: {},
-        },
-        callbacks: {
-          onopen: () => {
-            setIsActive(true);
-            setIsConnecting(false);
-            
-            const source = inputAudioCtxRef.current!.createMediaStreamSource(stream);
-            const scriptProcessor = inputAudioCtxRef.current!.createScriptProcessor(4096, 1, 1);
-            
-            scriptProcessor.onaudioprocess = (e) => {
-              if (isMutedRef.current) return;
-              const inputData = e.inputBuffer.getChannelData(0);
-              const pcmBlob = createBlob(inputData);
-              sessionPromise.then(session => {
-                session.sendRealtimeInput({ media: pcmBlob });
-              });
-            };
-            
-            source.connect(scriptProcessor);
-            scriptProcessor.connect(inputAudioCtxRef.current!.destination);
+          onRecord: (samples) => recorderRef.current?.addStudentAudio(samples, CAPTURE_SAMPLE_RATE),
+          // While the talk button is held, a pause is not the end of the clip.
+          onSpeechEnd: () => {
+            if (isHoldingRef.current) return;
+            diagnostics.speechEnded();
+            sessionRef.current?.endAudioStream();
           },
-          onmessage: async (message: LiveServerMessage) => {
-            // Handle Tool Calls
-            if (message.toolCall) {
-              for (const fc of message.toolCall.functionCalls || []) {
-                if (fc.name === 'displayTargetWord') {
-                  const { word, language } = fc.args as any;
-                  setTargetWord({ word, language });
-                  
-                  sessionPromise.then(session => {
-                    session.sendToolResponse({
-                      functionResponses: {
-                        id: fc.id,
-                        name: fc.name,
-                        response: { result: "Word displayed successfully." },
-                      }
-                    });
-                  });
-                }
+          isMuted: () => isMutedRef.current,
+        }).then(capture => {
+          // The lesson may have ended while the worklet was loading.
+          if (micStreamRef.current) micCaptureRef.current = capture;
+          else capture.stop();
+        }).catch(err => {
+          console.error('Microphone capture failed:', err);
+          diagnostics.error(`Microphone capture failed: ${err}`);
+          setIsMuted(true);
+          isMutedRef.current = true;
+        });
+      };
+
+      const handlers: Pick<LiveSessionHandlers, 'onToolCall' | 'onTranscription' | 'onTurnComplete' | 'onUsage'> = {
+        onToolCall: (fc) => {
+          const { response, card } = runToolCall(fc, {
+            getTargetWord: () => targetWordRef.current,
+            showTargetWord: (target) => showWord(profile.id, target),
+            recordPronunciation: (attempt) => {
+              setPronunciation(prev => recordPronunciationAttempt(prev, attempt));
+              updateDeck(profile.id, deck => applyAttempt(deck, attempt));
+              if (attempt.verdict === 'correct' && isPronunciationPack(pack)) {
+                const badges = updateRewards(profile, rewards => addMasteredWord(rewards, attempt.word));
+                if (badges.length > 0) celebrate(attempt.word, badges);
               }
-            }
-
-            // Handle Audio Data
-            const audioData = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-            if (audioData && outputAudioCtxRef.current) {
-              const ctx = outputAudioCtxRef.current;
-              nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
-              
-              const buffer = await decodeAudioData(decode(audioData), ctx, 24000, 1);
-              const source = ctx.createBufferSource();
-              source.buffer = buffer;
-              source.connect(ctx.destination);
-              source.start(nextStartTimeRef.current);
-              nextStartTimeRef.current += buffer.duration;
-              sourcesRef.current.add(source);
-              source.onended = () => sourcesRef.current.delete(source);
-            }
-
-            // Handle Transcriptions
-            if (message.serverContent?.inputTranscription) {
-              setUserTranscription(prev => prev + ' ' + message.serverContent!.inputTranscription!.text);
-            }
-            if (message.serverContent?.outputTranscription) {
-              setModelTranscription(prev => prev + ' ' + message.serverContent!.outputTranscription!.text);
-            }
-
-            if (message.serverContent?.interrupted) {
-              sourcesRef.current.forEach(s => s.stop());
-              sourcesRef.current.clear();
-              nextStartTimeRef.current = 0;
-            }
+            },
+            starsThisLesson: () => lessonStarsRef.current,
+            awardStar: (reason) => {
+              lessonStarsRef.current += 1;
+              celebrate(reason, updateRewards(profile, rewards => addStar(rewards, pack.subject)));
+              return rewardsRef.current.stars;
+            },
+          });
+          if (card) setToolCard(card);
+          diagnostics.toolCall(fc.name ?? 'unknown', fc.args, response);
+          return response;
+        },
+        onTranscription: (role, text) => {
+          if (role === 'model' && (suppressTutorRef.current || pausedRef.current)) return;
+          // Turn-by-turn replies have no audio; the text is the first sign of an answer.
+          if (role === 'model' && lessonModeRef.current === 'turns') diagnostics.replyStarted();
+          checkSafety(role, text);
+          if (role === 'model' && suppressTutorRef.current) return;
+          setMessages(prev => appendTranscription(prev, role, text));
+          // Turn-by-turn replies arrive whole, and are only read aloud once they pass the safety check.
+          if (role === 'model') speakerRef.current?.speak(text);
+        },
+        onTurnComplete: () => {
+          playerRef.current?.endTurn();
+          setCanReplay((speakerRef.current ?? playerRef.current)?.canReplay ?? false);
+          setMessages(prev => completeTurn(prev));
+          resetTurnSafety();
+        },
+        onUsage: diagnostics.usage,
+      };
+
+      /** Carries on turn by turn, for keys without Live API access and connections too poor to stream. */
+      const startTurns = (history: Message[], openingNote: string) => {
+        diagnostics.connection('turns');
+        lessonModeRef.current = 'turns';
+        setLessonMode('turns');
+        playerRef.current?.close();
+        playerRef.current = null;
+        speakerRef.current = createSpeaker({
+          volume: settings.volume,
+          rate: settings.slowSpeech ? SLOW_SPEECH_RATE : 1,
+        });
+        // The student talks by holding a button, so the mic stays closed in between.
+        setIsMuted(true);
+        isMutedRef.current = true;
+        sessionRef.current = startTurnSession({
+          lesson: turnLesson,
+          tools: toolDeclarations,
+          history,
+          openingNote,
+        }, {
+          ...handlers,
+          onTurnFailed: (message) => {
+            diagnostics.error(`Turn failed: ${message}`);
+            setTurnError(message);
           },
-          onerror: (e: any) => {
-            console.error('Session error:', e);
-            const msg = e.message || 'Network error';
-            
-            // Handle "Operation is not implemented" or "Network error"
-            if (msg.includes("Operation is not implemented") || msg.includes("Requested entity was not found")) {
-              setErrorMsg("Sathi AI needs a specific key. Please select a Paid Project key from the dialog.");
-              // @ts-ignore
-              window.aistudio.openSelectKey().then(() => {
-                 stopSession();
-              });
-            } else {
-              setErrorMsg(msg);
-              stopSession();
-            }
+        });
+      };
+
+      if (liveUnavailableRef.current) {
+        startTurns([], TURN_START_NOTE);
+        beginLesson();
+        return;
+      }
+
+      try {
+        sessionRef.current = await startLiveSession(createTransport(), {
+          systemInstruction,
+          tools: toolDeclarations,
+          voiceName: TUTOR_VOICES[settings.tutorVoice],
+          getHistory: () => messagesRef.current,
+        }, {
+          ...handlers,
+          onOpen: () => {
+            diagnostics.connection('live');
+            beginLesson();
+          },
+          onAudio: (base64) => {
+            diagnostics.audioReceived(base64Bytes(base64));
+            diagnostics.replyStarted();
+            if (suppressTutorRef.current || pausedRef.current) return;
+            playerRef.current?.enqueue(base64);
+            recorderRef.current?.addTutorAudio(base64, playerRef.current?.rate);
+          },
+          onInterrupted: () => {
+            playerRef.current?.interrupt();
+            recorderRef.current?.interruptTutor();
+            setMessages(prev => interruptModelTurn(prev));
+            resetTurnSafety(['model']);
+          },
+          onReconnecting: (attempt) => {
+            diagnostics.connection('reconnecting', `attempt ${attempt}`);
+            setIsReconnecting(true);
+            playerRef.current?.interrupt();
+            recorderRef.current?.interruptTutor();
+            setMessages(prev => completeTurn(prev));
           },
-          onclose: () => {
+          onReconnected: () => {
+            diagnostics.connection('live');
+            setIsReconnecting(false);
+          },
+          onError: (msg) => {
+            // The live connection is gone for good, but the lesson can carry on without it.
+            diagnostics.error(msg);
+            if (isFatalSessionError(msg)) liveUnavailableRef.current = true;
+            sessionRef.current?.close();
+            setIsReconnecting(false);
+            playerRef.current?.interrupt();
+            recorderRef.current?.interruptTutor();
+            setMessages(prev => completeTurn(prev));
+            resetTurnSafety();
+            startTurns(messagesRef.current, TURN_SWITCH_NOTE);
+          },
+          onClose: () => {
+            // Only the live connection closed; the lesson moved to turn-by-turn mode in `onError`.
+            if (lessonModeRef.current === 'turns') return;
+            // Null when the lesson was already ended, e.g. by the finish button; keep that review.
+            const lesson = endLesson(profile, pack, unit);
+            if (lesson) setCompletedLesson(lesson);
             stopSession();
-          }
-        }
-      });
-
-      sessionRef.current = await sessionPromise;
+          },
+        });
+      } catch (err) {
+        console.error('Live session failed, continuing turn by turn:', err);
+        diagnostics.error(`Live session failed: ${err instanceof Error ? err.message : err}`);
+        if (err instanceof Error && isFatalSessionError(err.message)) liveUnavailableRef.current = true;
+        startTurns([], TURN_START_NOTE);
+        beginLesson();
+      }
 
-    } catch (err: any) {
+    } catch (err) {
       console.error('Failed to start session:', err);
+      diagnostics.error(`Failed to start session: ${err instanceof Error ? err.message : err}`);
       setIsConnecting(false);
-      setErrorMsg(err.message || 'Could not connect to Sathi AI');
+      setErrorMsg((err instanceof Error && err.message) || t('error.connect'));
       stopSession();
     }
   };
@@ -246,139 +734,300 @@ const App: React.FC = () => {
     return () => stopSession();
   }, [stopSession]);
 
+  // Shown above the lesson in both the normal and the classroom layout.
+  const lessonNotices = (
+    <>
+      {isReconnecting && (
+        <div className="p-4 bg-amber-100 border border-amber-200 text-amber-800 rounded-2xl text-center font-bold flex items-center justify-center gap-3 animate-fade-in">
+          <div className="w-5 h-5 border-4 border-amber-500 border-t-transparent rounded-full animate-spin"></div>
+          {t('app.reconnecting')}
+        </div>
+      )}
+
+      {lessonMode === 'turns' && (
+        <div className="p-3 bg-sky-100 border border-sky-200 text-sky-800 rounded-2xl text-center font-bold text-sm animate-fade-in">
+          {t('turns.modeNote')}
+        </div>
+      )}
+
+      {turnError && (
+        <div className="p-4 bg-amber-100 border border-amber-200 text-amber-800 rounded-2xl text-center font-bold animate-fade-in" title={turnError}>
+          ⚠️ {t('turns.failed')}
+          <button onClick={() => setTurnError(null)} className="ml-4 underline text-sm hover:text-amber-900">{t('common.dismiss')}</button>
+        </div>
+      )}
+
+      {starAward && (
+        <StarBurst
+          key={starAward.id}
+          reason={starAward.reason}
+          total={starAward.total}
+          badges={starAward.badges}
+          onDone={() => setStarAward(null)}
+        />
+      )}
+    </>
+  );
+
+  const errorBanner = errorMsg && (
+    <div className="w-full mb-6 p-4 bg-red-100 border border-red-200 text-red-700 rounded-2xl text-center font-bold animate-pulse">
+      ⚠️ {errorMsg}
+      <button onClick={() => setErrorMsg(null)} className="ml-4 underline text-sm hover:text-red-900">{t('common.dismiss')}</button>
+    </div>
+  );
+
   return (
-    <div className="min-h-screen bg-sky-50 flex flex-col items-center p-4 md:p-8">
-      {/* Header */}
-      <header className="w-full max-w-4xl flex justify-between items-center mb-8">
-        <div className="flex items-center gap-3">
-          <div className="w-12 h-12 bg-orange-400 rounded-full flex items-center justify-center text-white text-2xl shadow-lg border-2 border-white">
-            🎓
+    <I18nContext.Provider value={i18n}>
+      <div className="min-h-screen bg-sky-50 flex flex-col items-center p-4 md:p-8">
+        {/* Header */}
+        <header className="w-full max-w-4xl flex justify-between items-center mb-8">
+          <div className="flex items-center gap-3">
+            <div
+              onClick={handleLogoTap}
+              className="w-12 h-12 bg-orange-400 rounded-full flex items-center justify-center text-white text-2xl shadow-lg border-2 border-white select-none"
+            >
+              🎓
+            </div>
+            <div>
+              <h1 className="text-3xl font-bold text-sky-900 tracking-tight">Sathi AI</h1>
+              <p className="text-sky-600 font-medium text-xs md:text-sm">{t('app.tagline')}</p>
+            </div>
           </div>
-          <div>
-            <h1 className="text-3xl font-bold text-sky-900 tracking-tight">Sathi AI</h1>
-            <p className="text-sky-600 font-medium text-xs md:text-sm">Your Personal Daju / Didy</p>
+          <div className="flex items-center gap-2">
+            {!isActive && !isConnecting && (
+              <button
+                onClick={toggleLanguage}
+                className="px-3 py-1 bg-white rounded-full shadow-sm border border-sky-100 hover:border-sky-300 text-sky-700 font-bold text-xs md:text-sm transition-colors"
+                title={t('app.switchLanguageTitle')}
+              >
+                {t('app.switchLanguage')}
+              </button>
+            )}
+            {!isActive && !isConnecting && activeProfile && (
+              <button
+                onClick={() => {
+                  setActiveProfile(null);
+                  setCompletedLesson(null);
+                }}
+                className="flex items-center gap-2 pl-2 pr-4 py-1 bg-white rounded-full shadow-sm border border-sky-100 hover:border-sky-300 transition-colors"
+                title={t('app.switchLearner')}
+              >
+                <span className="w-9 h-9 bg-orange-100 rounded-full flex items-center justify-center text-xl">{activeProfile.avatar}</span>
+                <span className="font-bold text-sky-800 text-sm md:text-base">{activeProfile.name}</span>
+                <span className="text-sky-400 text-xs">⇄</span>
+              </button>
+            )}
+            {isActive && (
+              <button 
+                onClick={finishLesson}
+                className="px-4 md:px-6 py-2 bg-red-500 hover:bg-red-600 text-white font-bold rounded-full shadow-md transition-all flex items-center gap-2 text-sm md:text-base"
+              >
+                <span className="w-3 h-3 bg-white rounded-full animate-pulse" />
+                {t('app.finishLesson')}
+              </button>
+            )}
           </div>
-        </div>
-        {isActive && (
-          <button 
-            onClick={stopSession}
-            className="px-4 md:px-6 py-2 bg-red-500 hover:bg-red-600 text-white font-bold rounded-full shadow-md transition-all flex items-center gap-2 text-sm md:text-base"
-          >
-            <span className="w-3 h-3 bg-white rounded-full animate-pulse" />
-            Finish Lesson
-          </button>
-        )}
-      </header>
-
-      {/* Main Content Area */}
-      <main className="w-full max-w-4xl flex-1 flex flex-col gap-6 relative">
-        {!isActive ? (
-          <div className="flex flex-col items-center animate-fade-in">
-            {errorMsg && (
-              <div className="w-full mb-6 p-4 bg-red-100 border border-red-200 text-red-700 rounded-2xl text-center font-bold animate-pulse">
-                ⚠️ {errorMsg}
-                <button onClick={() => setErrorMsg(null)} className="ml-4 underline text-sm hover:text-red-900">Dismiss</button>
+        </header>
+
+        {/* Main Content Area */}
+        <main className="w-full max-w-4xl flex-1 flex flex-col gap-6 relative">
+          {!isActive && adminView && !adminView.unlocked ? (
+            adminView.screen === 'dashboard' ? (
+              <PasscodeGate
+                name="dashboard"
+                title={t('app.dashboardTitle')}
+                onUnlock={() => setAdminView({ screen: 'dashboard', unlocked: true })}
+                onCancel={() => setAdminView(null)}
+              />
+            ) : adminView.screen === 'classroom' ? (
+              // Classroom lessons are for teachers, who already have the dashboard passcode.
+              <PasscodeGate
+                name="dashboard"
+                title={t('app.classroomTitle')}
+                onUnlock={() => setAdminView({ screen: 'classroom', unlocked: true })}
+                onCancel={() => setAdminView(null)}
+              />
+            ) : (
+              <PasscodeGate
+                name="settings"
+                title={t('app.settingsTitle')}
+                digitsOnly
+                onUnlock={() => setAdminView({ screen: 'settings', unlocked: true })}
+                onCancel={() => setAdminView(null)}
+              />
+            )
+          ) : !isActive && adminView?.screen === 'dashboard' ? (
+            <Dashboard onClose={() => setAdminView(null)} />
+          ) : !isActive && adminView?.screen === 'settings' ? (
+            <SettingsPanel settings={settings} onSave={handleSaveSettings} onClose={() => setAdminView(null)} />
+          ) : !isActive && completedLesson ? (
+            <LessonReview lesson={completedLesson} onClose={() => setCompletedLesson(null)} />
+          ) : !isActive && adminView?.screen === 'classroom' ? (
+            <div className="flex flex-col items-center animate-fade-in">
+              {errorBanner}
+              <ClassroomSetup
+                packs={curriculumPacks}
+                onStart={startSession}
+                onCancel={() => setAdminView(null)}
+                isConnecting={isConnecting}
+              />
+            </div>
+          ) : !isActive && !activeProfile ? (
+            profiles === null ? (
+              <div className="flex justify-center py-16">
+                <div className="w-10 h-10 border-4 border-sky-500 border-t-transparent rounded-full animate-spin"></div>
               </div>
-            )}
+            ) : (
+              <ProfilePicker profiles={profiles} onSelect={setActiveProfile} onCreate={handleCreateProfile} />
+            )
+          ) : !isActive ? (
+            <div className="flex flex-col items-center animate-fade-in">
+              {errorBanner}
             
-            <div className="bg-white p-6 md:p-8 rounded-3xl shadow-xl w-full border-t-8 border-orange-400">
-              <h2 className="text-xl md:text-2xl font-bold text-sky-800 mb-2 text-center">Namaste! के पढ्ने त आज?</h2>
-              <p className="text-sky-600 text-center mb-8 text-sm md:text-base">Choose a subject to start your lesson!</p>
-              
-              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 md:gap-6">
-                {SUBJECT_METADATA.map((sub) => (
-                  <button
-                    key={sub.id}
-                    onClick={() => startSession(sub.id)}
-                    disabled={isConnecting}
-                    className={`group relative p-6 rounded-2xl shadow-sm border-2 border-transparent hover:border-sky-300 hover:shadow-md transition-all text-left flex flex-col gap-2 ${sub.color} bg-opacity-10`}
-                  >
-                    <div className={`w-12 h-12 ${sub.color} rounded-xl flex items-center justify-center text-2xl shadow-sm mb-2 group-hover:scale-110 transition-transform`}>
-                      {sub.icon}
-                    </div>
-                    <h3 className="text-lg font-bold text-sky-900">{sub.id}</h3>
-                    <p className="text-xs md:text-sm text-sky-700">{sub.description}</p>
-                    {isConnecting && selectedSubject === sub.id && (
-                      <div className="absolute inset-0 bg-white/60 flex items-center justify-center rounded-2xl">
-                        <div className="w-8 h-8 border-4 border-sky-500 border-t-transparent rounded-full animate-spin"></div>
-                      </div>
-                    )}
-                  </button>
-                ))}
-              </div>
-            </div>
+              <SubjectPicker
+                studentName={activeProfile?.name}
+                grade={activeProfile?.grade ?? DEFAULT_GRADE}
+                rewards={activeProfile?.rewards}
+                packs={curriculumPacks}
+                onStart={startSession}
+                isConnecting={isConnecting}
+                connectingPackId={selectedPack?.id ?? null}
+              />
             
-            <div className="mt-8 text-center text-sky-500 max-w-md px-4">
-              <p className="italic text-sm">"Always bilingual - explaining in Nepali first, then English. Just like a big brother or sister!"</p>
-              <div className="mt-4 flex flex-col items-center gap-2">
-                <p className="text-[10px] text-sky-300 font-bold uppercase">Important Info</p>
-                <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" rel="noreferrer" className="text-[10px] underline hover:text-sky-500">
-                  Gemini Live API requires a Paid GCP Project key.
-                </a>
-              </div>
-            </div>
-          </div>
-        ) : (
-          <div className="flex flex-col gap-6 flex-1 h-full pb-32">
-            {/* Subject Indicator */}
-            <div className="bg-white px-6 py-4 rounded-2xl shadow-sm border-l-8 border-sky-400 flex items-center justify-between">
-              <div>
-                <span className="text-[10px] font-bold text-sky-400 uppercase tracking-widest">Currently Learning</span>
-                <h2 className="text-lg md:text-xl font-bold text-sky-900">{selectedSubject}</h2>
-              </div>
-              <div className="flex gap-2">
-                <div className={`h-10 w-10 ${isMuted ? 'bg-red-100 text-red-600' : 'bg-green-100 text-green-600'} rounded-full flex items-center justify-center ${!isMuted && 'animate-bounce-slow'} transition-colors`}>
-                  {isMuted ? '🔇' : '🎤'}
+              <div className="mt-8 text-center text-sky-500 max-w-md px-4">
+                <p className="italic text-sm">{t('app.motto')}</p>
+                <div className="mt-4 flex flex-col items-center gap-2">
+                  <p className="text-[10px] text-sky-300 font-bold uppercase">{t('app.importantInfo')}</p>
+                  <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" rel="noreferrer" className="text-[10px] underline hover:text-sky-500">
+                    {t('app.paidKeyNote')}
+                  </a>
                 </div>
               </div>
             </div>
+          ) : classroom ? (
+            <div className="flex flex-col gap-6 flex-1 h-full pb-32">
+              {lessonNotices}
 
-            {/* Pronunciation Target Word Card */}
-            {targetWord && (
-              <div className="bg-white p-8 rounded-3xl shadow-xl border-4 border-dashed border-pink-300 flex flex-col items-center animate-fade-in">
-                <span className="text-xs font-bold text-pink-400 uppercase tracking-widest mb-2">Practice this word / यो शब्द भन्नुहोस्:</span>
-                <h2 className="text-5xl md:text-7xl font-bold text-sky-900 mb-4 text-center tracking-tight">{targetWord.word}</h2>
-                <div className="flex items-center gap-2 px-4 py-1 bg-pink-100 text-pink-700 rounded-full font-bold text-sm">
-                  <span>{targetWord.language === 'Nepali' ? '🇳🇵' : '🇬🇧'}</span>
-                  {targetWord.language}
-                </div>
+              <ClassroomView
+                plan={classroom}
+                messages={visibleMessages}
+                target={targetWord}
+                attempts={targetWord ? attemptsFor(pronunciation, targetWord.word) : []}
+                isPaused={isPaused}
+                sessionEndsAt={sessionEndsAt}
+              >
+                {toolCard && (
+                  <LessonToolCard card={toolCard} onAnswer={handleToolAnswer} onImage={handleToolImage} onDismiss={() => setToolCard(null)} />
+                )}
+              </ClassroomView>
+
+              <TeacherControls isPaused={isPaused} onTogglePause={togglePause} onPushWord={pushWord} />
+
+              <div className="flex justify-center">
+                <PlaybackControls
+                  canReplay={canReplay && !isPaused}
+                  onReplay={replayTutor}
+                  slow={settings.slowSpeech}
+                  onSlowChange={handleSlowChange}
+                  volume={settings.volume}
+                  onVolumeChange={handleVolumeChange}
+                />
               </div>
-            )}
 
-            {/* Interaction Box */}
-            <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-4 md:gap-6 min-h-[300px]">
-              {/* AI Side */}
-              <div className="bg-white p-5 md:p-6 rounded-3xl shadow-lg border-2 border-sky-100 flex flex-col min-h-[150px]">
-                <div className="flex items-center gap-3 mb-3">
-                  <div className="w-8 h-8 md:w-10 md:h-10 bg-orange-100 rounded-full flex items-center justify-center text-lg md:text-xl">🤖</div>
-                  <h3 className="font-bold text-sky-800 text-sm md:text-base">Sathi AI says:</h3>
+              <MicButton
+                mode={lessonMode}
+                isMuted={isMuted}
+                isHolding={isHolding}
+                disabled={isPaused}
+                onToggleMute={toggleMute}
+                onStartTalking={startTalking}
+                onStopTalking={stopTalking}
+              />
+            </div>
+          ) : (
+            <div className="flex flex-col gap-6 flex-1 h-full pb-32">
+              {/* Subject Indicator */}
+              <div className="bg-white px-6 py-4 rounded-2xl shadow-sm border-l-8 border-sky-400 flex items-center justify-between">
+                <div>
+                  <span className="text-[10px] font-bold text-sky-400 uppercase tracking-widest">{t('app.currentlyLearning')}</span>
+                  <h2 className="text-lg md:text-xl font-bold text-sky-900">{selectedPack?.subject}</h2>
+                  {selectedUnit && selectedPack && selectedPack.units.length > 1 && (
+                    <p className="text-xs md:text-sm text-sky-600 font-medium">{selectedUnit.title}</p>
+                  )}
                 </div>
-                <div className="flex-1 overflow-y-auto bg-sky-50 rounded-xl p-4 text-sky-900 leading-relaxed font-medium text-sm md:text-base">
-                  {modelTranscription || "Wait a second, I'm thinking... 😊"}
+                <div className="flex gap-2">
+                  {isRecording && (
+                    <div className="h-10 px-3 rounded-full bg-red-100 text-red-600 flex items-center gap-1 font-bold text-xs" title={t('app.recordingTitle')}>
+                      <span className="w-2 h-2 bg-red-500 rounded-full animate-pulse" />
+                      {t('app.recording')}
+                    </div>
+                  )}
+                  {sessionEndsAt !== null && <SessionCountdown endsAt={sessionEndsAt} />}
+                  <button
+                    onClick={() => setIsCameraOpen(open => !open)}
+                    title={isCameraOpen ? t('app.cameraOffTitle') : t('app.cameraOnTitle')}
+                    className={`h-10 px-3 rounded-full flex items-center justify-center gap-1 font-bold text-xs transition-colors ${
+                      isCameraOpen ? 'bg-red-500 text-white' : 'bg-sky-100 text-sky-700 hover:bg-sky-200'
+                    }`}
+                  >
+                    📷{isCameraOpen && <span>{t('app.cameraOn')}</span>}
+                  </button>
+                  <div className={`h-10 w-10 ${isMuted ? 'bg-red-100 text-red-600' : 'bg-green-100 text-green-600'} rounded-full flex items-center justify-center ${!isMuted && 'animate-bounce-slow'} transition-colors`}>
+                    {isMuted ? '🔇' : '🎤'}
+                  </div>
                 </div>
               </div>
 
-              {/* Student Side */}
-              <div className="bg-white p-5 md:p-6 rounded-3xl shadow-lg border-2 border-orange-100 flex flex-col min-h-[150px]">
-                <div className="flex items-center gap-3 mb-3">
-                  <div className="w-8 h-8 md:w-10 md:h-10 bg-sky-100 rounded-full flex items-center justify-center text-lg md:text-xl">🧒</div>
-                  <h3 className="font-bold text-orange-800 text-sm md:text-base">You:</h3>
-                </div>
-                <div className="flex-1 overflow-y-auto bg-orange-50 rounded-xl p-4 text-orange-900 leading-relaxed font-medium italic text-sm md:text-base mb-4">
-                  {isMuted ? (
-                    <span className="text-red-400 font-bold italic">Mic is OFF. Type your question below!</span>
-                  ) : (
-                    userTranscription || "I'm listening to you! Speak clearly or type below... 👂"
-                  )}
+              {lessonNotices}
+
+              {isCameraOpen && (
+                <CameraPanel
+                  onPhoto={handlePhoto}
+                  onFrame={(frame) => sessionRef.current?.sendImage(frame)}
+                  onClose={() => setIsCameraOpen(false)}
+                />
+              )}
+
+              {/* Pronunciation Target Word Card */}
+              {targetWord && (
+                <TargetWordCard target={targetWord} attempts={attemptsFor(pronunciation, targetWord.word)} />
+              )}
+
+              {toolCard && (
+                <LessonToolCard card={toolCard} onAnswer={handleToolAnswer} onImage={handleToolImage} onDismiss={() => setToolCard(null)} />
+              )}
+
+              {/* Conversation */}
+              <div className="flex-1 bg-white p-5 md:p-6 rounded-3xl shadow-lg border-2 border-sky-100 flex flex-col min-h-[300px] max-h-[60vh]">
+                <div className="flex items-center gap-3 mb-3 flex-wrap">
+                  <div className="w-8 h-8 md:w-10 md:h-10 bg-orange-100 rounded-full flex items-center justify-center text-lg md:text-xl">🤖</div>
+                  <h3 className="font-bold text-sky-800 text-sm md:text-base">{t('app.conversationTitle')}</h3>
+                  <div className="ml-auto">
+                    <PlaybackControls
+                      canReplay={canReplay}
+                      onReplay={replayTutor}
+                      slow={settings.slowSpeech}
+                      onSlowChange={handleSlowChange}
+                      volume={settings.volume}
+                      onVolumeChange={handleVolumeChange}
+                    />
+                  </div>
                 </div>
+                <ConversationLog
+                  messages={visibleMessages}
+                  emptyText={t('app.thinking')}
+                />
+                {isMuted && lessonMode === 'live' && (
+                  <p className="mt-3 text-red-400 font-bold italic text-sm text-center">{t('app.micOffHint')}</p>
+                )}
                 {/* Typing Input */}
-                <div className="mt-auto flex gap-2">
+                <div className="mt-3 flex gap-2">
                   <input 
                     type="text"
                     value={inputText}
                     onChange={(e) => setInputText(e.target.value)}
-                    onKeyPress={(e) => e.key === 'Enter' && handleSendMessage()}
-                    placeholder="Type a message..."
+                    onKeyDown={(e) => e.key === 'Enter' && handleSendMessage()}
+                    placeholder={t('app.typePlaceholder')}
                     className="flex-1 px-4 py-2 rounded-full border-2 border-orange-200 focus:border-orange-400 focus:outline-none text-sm md:text-base"
                   />
                   <button 
@@ -389,47 +1038,50 @@ const App: React.FC = () => {
                   </button>
                 </div>
               </div>
-            </div>
 
-            {/* Microphone Toggle FAB */}
-            <div className="fixed bottom-10 left-1/2 -translate-x-1/2 z-50 flex flex-col items-center gap-2">
-              <button
-                onClick={toggleMute}
-                className={`w-16 h-16 rounded-full shadow-2xl flex items-center justify-center transition-all transform active:scale-95 ${
-                  isMuted 
-                  ? 'bg-red-500 hover:bg-red-600 scale-90' 
-                  : 'bg-sky-500 hover:bg-sky-600 scale-100'
-                }`}
-              >
-                <span className="text-3xl text-white">
-                  {isMuted ? '🔇' : '🎤'}
-                </span>
-                {!isMuted && (
-                  <span className="absolute inset-0 rounded-full bg-sky-400 animate-ping opacity-25"></span>
-                )}
-              </button>
-              <span className={`text-[10px] md:text-xs font-bold px-3 py-1 rounded-full shadow-sm border ${
-                isMuted ? 'bg-red-100 text-red-700 border-red-200' : 'bg-sky-100 text-sky-700 border-sky-200'
-              }`}>
-                {isMuted ? 'MIC OFF - Tap to Speak' : 'MIC ON - Speaking...'}
-              </span>
-            </div>
+              <MicButton
+                mode={lessonMode}
+                isMuted={isMuted}
+                isHolding={isHolding}
+                onToggleMute={toggleMute}
+                onStartTalking={startTalking}
+                onStopTalking={stopTalking}
+              />
 
-            {/* Tips/Helper */}
-            <div className="bg-amber-50 border border-amber-200 p-4 rounded-xl text-center mb-12 md:mb-0">
-              <p className="text-amber-800 text-xs md:text-sm font-bold flex items-center justify-center gap-2">
-                💡 Tip: Try to say the words after me when I say "Now you try!"
-              </p>
+              {/* Tips/Helper */}
+              <div className="bg-amber-50 border border-amber-200 p-4 rounded-xl text-center mb-12 md:mb-0">
+                <p className="text-amber-800 text-xs md:text-sm font-bold flex items-center justify-center gap-2">
+                  {t('app.tip')}
+                </p>
+              </div>
             </div>
-          </div>
-        )}
-      </main>
+          )}
+        </main>
 
-      {/* Footer Branding */}
-      <footer className="mt-8 text-sky-400 text-[10px] md:text-xs font-medium pb-4">
-        Made with ❤️ for the students of Nepal
-      </footer>
-    </div>
+        {showDiagnostics && <DiagnosticsPanel diagnostics={diagnostics} onClose={() => setShowDiagnostics(false)} />}
+
+        {/* Footer Branding */}
+        <footer className="mt-8 text-sky-400 text-[10px] md:text-xs font-medium pb-4">
+          {t('app.footer')}
+          {!isActive && !adminView && (
+            <>
+              {' · '}
+              <button onClick={() => setAdminView({ screen: 'dashboard', unlocked: false })} className="underline hover:text-sky-600">
+                {t('app.teachersLink')}
+              </button>
+              {' · '}
+              <button onClick={() => setAdminView({ screen: 'classroom', unlocked: false })} className="underline hover:text-sky-600">
+                {t('app.classroomLink')}
+              </button>
+              {' · '}
+              <button onClick={() => setAdminView({ screen: 'settings', unlocked: false })} className="underline hover:text-sky-600">
+                {t('app.settingsLink')}
+              </button>
+            </>
+          )}
+        </footer>
+      </div>
+    </I18nContext.Provider>
   );
 };
 
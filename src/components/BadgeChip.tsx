@@ -0,0 +1,30 @@
+import React from 'react';
+import type { BadgeKind, EarnedBadge } from '../types';
+import { useI18n } from '../i18n';
+
+const BADGE_ICONS: Record<BadgeKind, string> = {
+  stars: '🏅',
+  words: '🗣️',
+  streak: '🔥',
+};
+
+interface BadgeChipProps {
+  badge: EarnedBadge;
+}
+
+const BadgeChip: React.FC<BadgeChipProps> = ({ badge }) => {
+  const { t } = useI18n();
+  const label =
+    badge.kind === 'stars' ? t('badge.stars', { count: badge.count, subject: badge.subject ?? '' })
+    : badge.kind === 'words' ? t('badge.words', { count: badge.count })
+    : t('badge.streak', { count: badge.count });
+
+  return (
+    <span className="inline-flex items-center gap-1 px-3 py-1 rounded-full bg-amber-100 border border-amber-300 text-amber-900 text-xs md:text-sm font-bold">
+      <span aria-hidden>{BADGE_ICONS[badge.kind]}</span>
+      {label}
+    </span>
+  );
+};
+
+export default BadgeChip;
@@ -0,0 +1,151 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  captureFrame,
+  imageBlobToDataUrl,
+  imageFileToBlob,
+  openCamera,
+  startFrameStream,
+  type FrameStream,
+  type ImageBlob,
+} from '../services/cameraCapture';
+import { useI18n, type MessageKey } from '../i18n';
+
+interface CameraPanelProps {
+  /** A single photo the student chose to send, with a question for the tutor. */
+  onPhoto: (image: ImageBlob) => void;
+  /** One frame of the live camera view. */
+  onFrame: (image: ImageBlob) => void;
+  onClose: () => void;
+}
+
+/** The camera runs only while this panel is mounted. */
+const CameraPanel: React.FC<CameraPanelProps> = ({ onPhoto, onFrame, onClose }) => {
+  const { t } = useI18n();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const frameStreamRef = useRef<FrameStream | null>(null);
+  const onFrameRef = useRef(onFrame);
+  const [hasCamera, setHasCamera] = useState(false);
+  const [cameraError, setCameraError] = useState<MessageKey | null>(null);
+  const [isLive, setIsLive] = useState(false);
+  const [lastPhoto, setLastPhoto] = useState<string | null>(null);
+
+  useEffect(() => {
+    onFrameRef.current = onFrame;
+  }, [onFrame]);
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    openCamera()
+      .then((s) => {
+        if (cancelled) {
+          s.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = s;
+        if (videoRef.current) videoRef.current.srcObject = s;
+        setHasCamera(true);
+      })
+      .catch((err) => {
+        console.error('Camera unavailable:', err);
+        setCameraError('camera.unavailable');
+      });
+    return () => {
+      cancelled = true;
+      frameStreamRef.current?.stop();
+      frameStreamRef.current = null;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  const sendPhoto = (image: ImageBlob | null) => {
+    if (!image) return;
+    setLastPhoto(imageBlobToDataUrl(image));
+    onPhoto(image);
+  };
+
+  const takePhoto = () => {
+    if (videoRef.current) sendPhoto(captureFrame(videoRef.current));
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      sendPhoto(await imageFileToBlob(file));
+    } catch (err) {
+      console.error('Could not read photo:', err);
+      setCameraError('camera.badPhoto');
+    }
+  };
+
+  const toggleLive = () => {
+    if (frameStreamRef.current) {
+      frameStreamRef.current.stop();
+      frameStreamRef.current = null;
+      setIsLive(false);
+    } else if (videoRef.current) {
+      frameStreamRef.current = startFrameStream(videoRef.current, frame => onFrameRef.current(frame));
+      setIsLive(true);
+    }
+  };
+
+  return (
+    <div className="bg-white p-4 md:p-5 rounded-3xl shadow-lg border-4 border-red-300 animate-fade-in">
+      <div className="flex items-center justify-between mb-3">
+        <span className="flex items-center gap-2 text-xs md:text-sm font-bold text-red-600">
+          <span className="w-3 h-3 bg-red-500 rounded-full animate-pulse" />
+          {t(isLive ? 'camera.live' : hasCamera ? 'camera.preview' : 'camera.photo')}
+        </span>
+        <button onClick={onClose} className="px-3 py-1 rounded-full text-sm font-bold text-sky-600 hover:bg-sky-50">
+          {t('camera.turnOff')}
+        </button>
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-3">
+        <div className="relative flex-1 bg-sky-950 rounded-2xl overflow-hidden aspect-video">
+          <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-contain" />
+          {!hasCamera && (
+            <p className="absolute inset-0 flex items-center justify-center p-4 text-center text-sky-100 text-sm">
+              {t(cameraError ?? 'camera.starting')}
+            </p>
+          )}
+        </div>
+        {lastPhoto && (
+          <div className="md:w-40 shrink-0">
+            <p className="text-[10px] font-bold text-sky-400 uppercase mb-1">{t('camera.lastPhoto')}</p>
+            <img src={lastPhoto} alt={t('camera.lastPhoto')} className="w-full rounded-xl border-2 border-sky-100" />
+          </div>
+        )}
+      </div>
+
+      <div className="mt-3 flex flex-wrap gap-2 justify-center">
+        <button
+          onClick={takePhoto}
+          disabled={!hasCamera}
+          className="px-5 py-2 bg-orange-500 hover:bg-orange-600 disabled:opacity-50 text-white font-bold rounded-full shadow-md"
+        >
+          {t('camera.send')}
+        </button>
+        <button
+          onClick={toggleLive}
+          disabled={!hasCamera}
+          className={`px-5 py-2 font-bold rounded-full shadow-md disabled:opacity-50 ${isLive ? 'bg-red-500 hover:bg-red-600 text-white' : 'bg-sky-100 hover:bg-sky-200 text-sky-800'}`}
+        >
+          {t(isLive ? 'camera.stopLive' : 'camera.startLive')}
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="px-5 py-2 bg-sky-100 hover:bg-sky-200 text-sky-800 font-bold rounded-full shadow-md"
+        >
+          {t('camera.choose')}
+        </button>
+        <input ref={fileInputRef} type="file" accept="image/*" onChange={handleFile} className="hidden" />
+      </div>
+    </div>
+  );
+};
+
+export default CameraPanel;
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import type { ClassroomPlan, CurriculumPack, CurriculumUnit } from '../types';
+import { MAX_CLASSROOM_GOAL_LENGTH, MAX_CLASSROOM_TOPIC_LENGTH } from '../constants';
+import { unitsForGrade } from '../services/curriculum';
+import { DEFAULT_GRADE, GRADES } from '../services/gradeLevels';
+import { useI18n } from '../i18n';
+
+interface ClassroomSetupProps {
+  packs: CurriculumPack[];
+  onStart: (pack: CurriculumPack, unit: CurriculumUnit, plan: ClassroomPlan) => void;
+  onCancel: () => void;
+  isConnecting: boolean;
+}
+
+const ClassroomSetup: React.FC<ClassroomSetupProps> = ({ packs, onStart, onCancel, isConnecting }) => {
+  const { t, num } = useI18n();
+  const [grade, setGrade] = useState(DEFAULT_GRADE);
+  const [lessonKey, setLessonKey] = useState('');
+  const [topic, setTopic] = useState('');
+  const [goal, setGoal] = useState('');
+
+  const lessons = packs.flatMap(pack => unitsForGrade(pack, grade).map(unit => ({ key: `${pack.id}/${unit.id}`, pack, unit })));
+  const lesson = lessons.find(l => l.key === lessonKey) ?? lessons[0];
+  const canStart = !!lesson && !!topic.trim() && !!goal.trim() && !isConnecting;
+
+  const handleStart = () => {
+    if (!canStart) return;
+    onStart(lesson.pack, lesson.unit, { grade, topic: topic.trim(), goal: goal.trim() });
+  };
+
+  return (
+    <div className="bg-white p-6 md:p-8 rounded-3xl shadow-xl w-full border-t-8 border-sky-700 animate-fade-in">
+      <h2 className="text-xl md:text-2xl font-bold text-sky-900 mb-2 text-center">🏫 {t('classroom.setupTitle')}</h2>
+      <p className="text-sky-600 text-center mb-6 text-sm">{t('classroom.setupIntro')}</p>
+
+      <p className="text-sm font-bold text-sky-700 mb-2">{t('profiles.grade')}</p>
+      <div className="flex gap-2 mb-6">
+        {GRADES.map((g) => (
+          <button
+            key={g}
+            onClick={() => setGrade(g)}
+            className={`w-12 h-12 rounded-xl font-bold text-lg transition-colors ${grade === g ? 'bg-sky-500 text-white' : 'bg-sky-50 text-sky-700 hover:bg-sky-100'}`}
+          >
+            {num(g)}
+          </button>
+        ))}
+      </div>
+
+      <label className="block text-sm font-bold text-sky-700 mb-2">{t('classroom.subject')}</label>
+      <select
+        value={lesson?.key ?? ''}
+        onChange={(e) => setLessonKey(e.target.value)}
+        className="w-full px-4 py-3 mb-6 rounded-2xl border-2 border-sky-200 focus:border-sky-400 focus:outline-none text-lg bg-white"
+      >
+        {packs.map(pack => {
+          const units = unitsForGrade(pack, grade);
+          if (units.length === 0) return null;
+          return (
+            <optgroup key={pack.id} label={`${pack.icon} ${pack.subject}`}>
+              {units.map(unit => <option key={unit.id} value={`${pack.id}/${unit.id}`}>{unit.title}</option>)}
+            </optgroup>
+          );
+        })}
+      </select>
+
+      <label className="block text-sm font-bold text-sky-700 mb-2">{t('classroom.topic')}</label>
+      <input
+        type="text"
+        value={topic}
+        onChange={(e) => setTopic(e.target.value)}
+        maxLength={MAX_CLASSROOM_TOPIC_LENGTH}
+        placeholder={t('classroom.topicPlaceholder')}
+        className="w-full px-4 py-3 mb-6 rounded-2xl border-2 border-sky-200 focus:border-sky-400 focus:outline-none text-lg"
+      />
+
+      <label className="block text-sm font-bold text-sky-700 mb-2">{t('classroom.goal')}</label>
+      <textarea
+        value={goal}
+        onChange={(e) => setGoal(e.target.value)}
+        maxLength={MAX_CLASSROOM_GOAL_LENGTH}
+        rows={3}
+        placeholder={t('classroom.goalPlaceholder')}
+        className="w-full px-4 py-3 mb-8 rounded-2xl border-2 border-sky-200 focus:border-sky-400 focus:outline-none text-lg resize-none"
+      />
+
+      <div className="flex gap-3 justify-center">
+        <button onClick={onCancel} className="px-6 py-3 rounded-full font-bold text-sky-600 hover:bg-sky-50">
+          {t('common.cancel')}
+        </button>
+        <button
+          onClick={handleStart}
+          disabled={!canStart}
+          className="px-6 py-3 bg-sky-700 hover:bg-sky-800 disabled:opacity-50 text-white font-bold rounded-full shadow-md transition-colors"
+        >
+          {isConnecting ? t('classroom.starting') : t('classroom.start')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ClassroomSetup;
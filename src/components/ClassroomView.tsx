@@ -0,0 +1,72 @@
+import React from 'react';
+import type { ClassroomPlan, Message, PronunciationAttempt, TargetWord } from '../types';
+import { useI18n } from '../i18n';
+import SessionCountdown from './SessionCountdown';
+import TargetWordCard from './TargetWordCard';
+
+interface ClassroomViewProps {
+  plan: ClassroomPlan;
+  messages: Message[];
+  target: TargetWord | null;
+  attempts: PronunciationAttempt[];
+  isPaused: boolean;
+  sessionEndsAt: number | null;
+  /** The tool card, shown between the word and the transcript. */
+  children?: React.ReactNode;
+}
+
+// Only the last few turns fit in type big enough to read from the back of the room.
+const SHOWN_TURNS = 6;
+
+/** The projector layout for a classroom lesson: big type, and nothing a class can't see from its desks. */
+const ClassroomView: React.FC<ClassroomViewProps> = ({ plan, messages, target, attempts, isPaused, sessionEndsAt, children }) => {
+  const { t } = useI18n();
+  const shown = messages.filter(m => m.text.trim()).slice(-SHOWN_TURNS);
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="bg-white px-6 py-4 rounded-2xl shadow-sm border-l-8 border-sky-700 flex items-start justify-between gap-4">
+        <div>
+          <span className="text-xs font-bold text-sky-400 uppercase tracking-widest">
+            {t('classroom.className', { grade: plan.grade })}
+          </span>
+          <h2 className="text-2xl md:text-4xl font-bold text-sky-900">{plan.topic}</h2>
+          <p className="text-base md:text-xl text-sky-600 font-medium">{plan.goal}</p>
+        </div>
+        {sessionEndsAt !== null && <SessionCountdown endsAt={sessionEndsAt} />}
+      </div>
+
+      {isPaused && (
+        <div className="p-6 bg-amber-100 border-4 border-amber-300 text-amber-800 rounded-3xl text-center font-bold text-2xl md:text-4xl animate-fade-in">
+          ⏸ {t('classroom.paused')}
+        </div>
+      )}
+
+      {target && <TargetWordCard target={target} attempts={attempts} large />}
+
+      {children}
+
+      <ol className="bg-white p-6 md:p-8 rounded-3xl shadow-lg border-2 border-sky-100 flex flex-col gap-4">
+        {shown.length === 0 && <li className="text-sky-400 italic text-center text-xl md:text-2xl">{t('app.thinking')}</li>}
+        {shown.map(msg => (
+          <li
+            key={msg.id}
+            className={`flex gap-3 items-start text-xl md:text-3xl leading-snug font-medium ${
+              msg.role === 'model' ? 'text-sky-900' : 'text-orange-800'
+            } ${msg.isComplete ? '' : 'opacity-80'}`}
+          >
+            <span className="shrink-0" aria-label={msg.role === 'model' ? t('classroom.tutor') : t('classroom.class')}>
+              {msg.role === 'model' ? '🤖' : '🧑‍🤝‍🧑'}
+            </span>
+            <p className="whitespace-pre-wrap">
+              {msg.text.trim()}
+              {msg.interrupted && <span className="text-sky-400 italic"> …</span>}
+            </p>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default ClassroomView;
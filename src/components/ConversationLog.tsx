@@ -0,0 +1,64 @@
+import React, { useEffect, useRef } from 'react';
+import type { Message } from '../types';
+import { useI18n } from '../i18n';
+import { formatClock, formatElapsed } from '../services/timeFormat';
+
+interface ConversationLogProps {
+  messages: Message[];
+  emptyText: string;
+  // Review mode shows times relative to the lesson start instead of the clock time.
+  startedAt?: number;
+  autoScroll?: boolean;
+}
+
+const ConversationLog: React.FC<ConversationLogProps> = ({ messages, emptyText, startedAt, autoScroll = true }) => {
+  const { t, num } = useI18n();
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (autoScroll && scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [messages, autoScroll]);
+
+  return (
+    <div ref={scrollRef} className="flex-1 overflow-y-auto bg-sky-50 rounded-xl p-4 flex flex-col gap-3">
+      {messages.length === 0 && (
+        <p className="text-sky-400 italic text-center text-sm md:text-base my-auto">{emptyText}</p>
+      )}
+      {messages.map((msg) => {
+        const isModel = msg.role === 'model';
+        return (
+          <div key={msg.id} className={`flex gap-2 items-end ${isModel ? 'justify-start' : 'justify-end'}`}>
+            {isModel && (
+              <div className="w-8 h-8 shrink-0 bg-orange-100 rounded-full flex items-center justify-center text-lg">🤖</div>
+            )}
+            <div
+              className={`max-w-[80%] px-4 py-2 rounded-2xl shadow-sm text-sm md:text-base leading-relaxed font-medium ${
+                isModel
+                  ? 'bg-white text-sky-900 rounded-bl-sm border border-sky-100'
+                  : 'bg-orange-100 text-orange-900 rounded-br-sm'
+              } ${msg.isComplete ? '' : 'opacity-80'}`}
+            >
+              <p className="whitespace-pre-wrap">
+                {msg.text.trim()}
+                {msg.interrupted && <span className="text-sky-400 italic"> …</span>}
+              </p>
+              <div className={`mt-1 flex items-center gap-1 text-[10px] font-bold ${isModel ? 'text-sky-400' : 'text-orange-400'}`}>
+                <span>{t(`source.${msg.source}`)}</span>
+                <span>·</span>
+                <span>{num(startedAt !== undefined ? formatElapsed(msg.timestamp - startedAt) : formatClock(msg.timestamp))}</span>
+                {msg.interrupted && <span>· {t('log.interrupted')}</span>}
+              </div>
+            </div>
+            {!isModel && (
+              <div className="w-8 h-8 shrink-0 bg-sky-100 rounded-full flex items-center justify-center text-lg">🧒</div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ConversationLog;
@@ -0,0 +1,240 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { LessonRecord, LessonRecording } from '../types';
+import { VERDICT_STYLES } from '../constants';
+import { formatClock, formatElapsed } from '../services/timeFormat';
+import { loadLessonRecords, summarizeProgress } from '../services/lessonRecords';
+import { deleteRecording, loadRecordings } from '../services/recordings';
+import { downloadFile, lessonsToCsv, lessonsToJson } from '../services/reportExport';
+import RecordingPlayer from './RecordingPlayer';
+import { useI18n, type MessageKey } from '../i18n';
+
+interface DashboardProps {
+  onClose: () => void;
+}
+
+const Dashboard: React.FC<DashboardProps> = ({ onClose }) => {
+  const { t, num } = useI18n();
+  const [records, setRecords] = useState<LessonRecord[] | null>(null);
+  const [error, setError] = useState<MessageKey | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [recordings, setRecordings] = useState<LessonRecording[]>([]);
+  const [playingId, setPlayingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadLessonRecords()
+      .then(setRecords)
+      .catch((err) => {
+        console.error('Failed to load lesson records', err);
+        setError('dashboard.loadError');
+      });
+    loadRecordings()
+      .then(setRecordings)
+      .catch(err => console.error('Failed to load recordings', err));
+  }, []);
+
+  const progress = useMemo(() => summarizeProgress(records ?? []), [records]);
+  const selected = progress.find(p => p.profileId === selectedId) ?? progress[0];
+  const selectedRecords = (records ?? []).filter(r => r.profileId === selected?.profileId);
+  const selectedRecordings = recordings.filter(r => r.profileId === selected?.profileId);
+  const playing = selectedRecordings.find(r => r.id === playingId);
+
+  const removeRecording = async (id: string) => {
+    try {
+      await deleteRecording(id);
+      setRecordings(prev => prev.filter(r => r.id !== id));
+      setPlayingId(null);
+    } catch (err) {
+      console.error('Failed to delete recording', err);
+      setError('recording.deleteError');
+    }
+  };
+
+  const exportReport = (format: 'csv' | 'json', scope: LessonRecord[], label: string) => {
+    const date = new Date().toISOString().slice(0, 10);
+    const filename = `sathi-report-${label}-${date}.${format}`;
+    if (format === 'csv') downloadFile(filename, lessonsToCsv(scope), 'text/csv;charset=utf-8');
+    else downloadFile(filename, lessonsToJson(scope), 'application/json');
+  };
+
+  return (
+    <div className="flex flex-col gap-6 flex-1 animate-fade-in">
+      <div className="bg-white p-6 md:p-8 rounded-3xl shadow-xl w-full border-t-8 border-sky-700">
+        <div className="flex items-start justify-between gap-4 flex-wrap">
+          <div>
+            <span className="text-[10px] font-bold text-sky-400 uppercase tracking-widest">{t('dashboard.label')}</span>
+            <h2 className="text-xl md:text-2xl font-bold text-sky-900">{t('app.dashboardTitle')}</h2>
+          </div>
+          <div className="flex gap-2 flex-wrap">
+            <button
+              onClick={() => exportReport('csv', records ?? [], 'all')}
+              disabled={!records?.length}
+              className="px-4 py-2 rounded-full text-sm font-bold bg-sky-50 text-sky-700 hover:bg-sky-100 disabled:opacity-50"
+            >
+              {t('dashboard.allCsv')}
+            </button>
+            <button
+              onClick={() => exportReport('json', records ?? [], 'all')}
+              disabled={!records?.length}
+              className="px-4 py-2 rounded-full text-sm font-bold bg-sky-50 text-sky-700 hover:bg-sky-100 disabled:opacity-50"
+            >
+              {t('dashboard.allJson')}
+            </button>
+            <button onClick={onClose} className="px-4 py-2 rounded-full text-sm font-bold bg-sky-700 text-white hover:bg-sky-800">
+              {t('common.close')}
+            </button>
+          </div>
+        </div>
+
+        {error && <p className="mt-4 text-red-600 font-medium">{t(error)}</p>}
+        {records && records.length === 0 && (
+          <p className="mt-6 text-sky-600">{t('dashboard.empty')}</p>
+        )}
+
+        {progress.length > 0 && (
+          <div className="mt-6 flex gap-2 flex-wrap">
+            {progress.map(p => (
+              <button
+                key={p.profileId}
+                onClick={() => setSelectedId(p.profileId)}
+                className={`px-4 py-2 rounded-full font-bold text-sm transition-colors ${p.profileId === selected?.profileId ? 'bg-orange-500 text-white' : 'bg-orange-50 text-orange-700 hover:bg-orange-100'}`}
+              >
+                {p.studentName}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {selected && (
+        <>
+          <div className="bg-white p-5 md:p-6 rounded-3xl shadow-lg border-2 border-sky-100">
+            <div className="flex items-center justify-between gap-4 flex-wrap mb-4">
+              <h3 className="font-bold text-sky-900 text-lg">
+                {selected.studentName} <span className="text-sm text-sky-500">· {t('profiles.gradeN', { grade: selected.grade })}</span>
+              </h3>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => exportReport('csv', selectedRecords, selected.studentName)}
+                  className="px-3 py-1 rounded-full text-xs font-bold bg-sky-50 text-sky-700 hover:bg-sky-100"
+                >
+                  CSV
+                </button>
+                <button
+                  onClick={() => exportReport('json', selectedRecords, selected.studentName)}
+                  className="px-3 py-1 rounded-full text-xs font-bold bg-sky-50 text-sky-700 hover:bg-sky-100"
+                >
+                  JSON
+                </button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-center">
+              <div className="bg-sky-50 rounded-2xl p-3">
+                <p className="text-2xl font-bold text-sky-900">{num(selected.lessons)}</p>
+                <p className="text-[10px] md:text-xs font-bold text-sky-500 uppercase">{t('dashboard.lessons')}</p>
+              </div>
+              <div className="bg-sky-50 rounded-2xl p-3">
+                <p className="text-2xl font-bold text-sky-900">{num(formatElapsed(selected.durationMs))}</p>
+                <p className="text-[10px] md:text-xs font-bold text-sky-500 uppercase">{t('dashboard.timeSpent')}</p>
+              </div>
+              <div className="bg-orange-50 rounded-2xl p-3">
+                <p className="text-2xl font-bold text-orange-900">{num(selected.spokenQuestions)}</p>
+                <p className="text-[10px] md:text-xs font-bold text-orange-500 uppercase">{t('dashboard.spokenQuestions')}</p>
+              </div>
+              <div className="bg-orange-50 rounded-2xl p-3">
+                <p className="text-2xl font-bold text-orange-900">{num(selected.typedQuestions)}</p>
+                <p className="text-[10px] md:text-xs font-bold text-orange-500 uppercase">{t('dashboard.typedQuestions')}</p>
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-white p-5 md:p-6 rounded-3xl shadow-lg border-2 border-sky-100">
+            <h3 className="font-bold text-sky-800 text-sm md:text-base mb-3">{t('dashboard.perSubject')}</h3>
+            <table className="w-full text-left text-sm md:text-base">
+              <thead>
+                <tr className="text-[10px] md:text-xs font-bold text-sky-400 uppercase">
+                  <th className="py-2">{t('dashboard.subject')}</th>
+                  <th className="py-2">{t('dashboard.lessons')}</th>
+                  <th className="py-2">{t('dashboard.time')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {selected.bySubject.map(s => (
+                  <tr key={s.subject} className="border-t border-sky-50">
+                    <td className="py-2 font-bold text-sky-900">{s.subject}</td>
+                    <td className="py-2">{num(s.lessons)}</td>
+                    <td className="py-2">{num(formatElapsed(s.durationMs))}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {selected.safetyEvents.length > 0 && (
+            <div className="bg-white p-5 md:p-6 rounded-3xl shadow-lg border-2 border-red-100">
+              <h3 className="font-bold text-sky-800 text-sm md:text-base mb-1">{t('dashboard.safetyTitle')}</h3>
+              <p className="text-xs text-sky-500 mb-3">{t('dashboard.safetyNote')}</p>
+              <ul className="flex flex-col gap-1 text-sm">
+                {selected.safetyEvents.map(e => (
+                  <li key={`${e.timestamp}-${e.ruleId}`} className="flex gap-2">
+                    <span className="text-sky-500">{num(`${new Date(e.timestamp).toLocaleDateString()} ${formatClock(e.timestamp)}`)}</span>
+                    <span className="font-bold text-red-700">{e.category}</span>
+                    <span className="text-sky-700">
+                      {e.action === 'blocked' ? t('dashboard.safetyBlocked') : t('dashboard.safetyFlagged')}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {playing ? (
+            <RecordingPlayer recording={playing} onDelete={() => removeRecording(playing.id)} onClose={() => setPlayingId(null)} />
+          ) : selectedRecordings.length > 0 && (
+            <div className="bg-white p-5 md:p-6 rounded-3xl shadow-lg border-2 border-sky-100">
+              <h3 className="font-bold text-sky-800 text-sm md:text-base mb-3">{t('dashboard.recordings')}</h3>
+              <ul className="flex flex-col gap-2">
+                {selectedRecordings.map(r => (
+                  <li key={r.id} className="flex items-center justify-between gap-3 text-sm">
+                    <span>
+                      <span className="text-sky-500">{num(`${new Date(r.startedAt).toLocaleDateString()} ${formatClock(r.startedAt)}`)}</span>
+                      {' · '}
+                      <span className="font-bold text-sky-900">{r.subject}</span>
+                      {' · '}
+                      <span className="text-sky-700">{num(formatElapsed(r.durationMs))}</span>
+                    </span>
+                    <button
+                      onClick={() => setPlayingId(r.id)}
+                      className="px-3 py-1 rounded-full text-xs font-bold bg-orange-50 text-orange-700 hover:bg-orange-100 shrink-0"
+                    >
+                      {t('dashboard.listen')}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {selected.words.length > 0 && (
+            <div className="bg-white p-5 md:p-6 rounded-3xl shadow-lg border-2 border-pink-100">
+              <h3 className="font-bold text-sky-800 text-sm md:text-base mb-3">{t('dashboard.words')}</h3>
+              <div className="flex flex-wrap gap-2">
+                {selected.words.map(w => (
+                  <span
+                    key={w.word}
+                    title={t('dashboard.tries', { count: w.attempts })}
+                    className={`px-3 py-1 rounded-full font-bold text-sm ${w.finalVerdict ? VERDICT_STYLES[w.finalVerdict].badge : 'bg-sky-50 text-sky-700'}`}
+                  >
+                    {w.word}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default Dashboard;
@@ -0,0 +1,84 @@
+import React, { useSyncExternalStore } from 'react';
+import type { Diagnostics, DiagnosticKind } from '../services/diagnostics';
+import { downloadFile } from '../services/reportExport';
+import { useI18n } from '../i18n';
+
+interface DiagnosticsPanelProps {
+  diagnostics: Diagnostics;
+  onClose: () => void;
+}
+
+// The newest events are what matter on screen; the export has them all.
+const SHOWN_EVENTS = 100;
+
+const KIND_STYLES: Record<DiagnosticKind, string> = {
+  connection: 'text-sky-300',
+  latency: 'text-green-300',
+  underrun: 'text-amber-300',
+  tool: 'text-violet-300',
+  usage: 'text-slate-400',
+  error: 'text-red-400',
+};
+
+const formatTime = (at: number) => new Date(at).toLocaleTimeString([], { hour12: false });
+const formatKb = (bytes: number) => `${(bytes / 1024).toFixed(1)} KB`;
+
+const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ diagnostics, onClose }) => {
+  const { t } = useI18n();
+  const snapshot = useSyncExternalStore(diagnostics.subscribe, diagnostics.getSnapshot);
+  const latencies = snapshot.latenciesMs;
+  const lastLatency = latencies[latencies.length - 1];
+  const averageLatency = latencies.length > 0 ? Math.round(latencies.reduce((sum, l) => sum + l, 0) / latencies.length) : undefined;
+
+  const exportLog = () => {
+    const stamp = new Date().toISOString().slice(0, 16).replace(/[T:]/g, '-');
+    downloadFile(`sathi-diagnostics-${stamp}.json`, diagnostics.exportLog(), 'application/json');
+  };
+
+  const stats: [string, string][] = [
+    [t('diagnostics.connection'), snapshot.connection],
+    [t('diagnostics.latency'), lastLatency === undefined ? '–' : `${lastLatency} ms (⌀ ${averageLatency} ms)`],
+    [t('diagnostics.underruns'), `${snapshot.underruns} (${Math.round(snapshot.underrunMs)} ms)`],
+    [t('diagnostics.audioSent'), formatKb(snapshot.audioBytesSent)],
+    [t('diagnostics.audioReceived'), formatKb(snapshot.audioBytesReceived)],
+    [t('diagnostics.toolCalls'), String(snapshot.toolCalls)],
+    [t('diagnostics.tokens'), snapshot.lastUsage?.totalTokens === undefined ? '–' : String(snapshot.lastUsage.totalTokens)],
+  ];
+
+  return (
+    <div className="fixed inset-x-0 bottom-0 z-[60] max-h-[60vh] flex flex-col bg-slate-900/95 text-slate-100 font-mono text-xs shadow-2xl">
+      <div className="flex items-center gap-2 px-4 py-2 border-b border-slate-700">
+        <h2 className="font-bold text-sm mr-auto">{t('diagnostics.title')}</h2>
+        <button onClick={exportLog} className="px-3 py-1 rounded bg-sky-600 hover:bg-sky-500 font-bold">
+          {t('diagnostics.export')}
+        </button>
+        <button onClick={diagnostics.clear} className="px-3 py-1 rounded bg-slate-700 hover:bg-slate-600 font-bold">
+          {t('diagnostics.clear')}
+        </button>
+        <button onClick={onClose} className="px-3 py-1 rounded bg-slate-700 hover:bg-slate-600 font-bold" title={t('common.close')}>
+          ✕
+        </button>
+      </div>
+      <dl className="grid grid-cols-2 md:grid-cols-4 gap-x-4 gap-y-1 px-4 py-2 border-b border-slate-700">
+        {stats.map(([label, value]) => (
+          <div key={label} className="flex justify-between gap-2">
+            <dt className="text-slate-400">{label}</dt>
+            <dd className="font-bold">{value}</dd>
+          </div>
+        ))}
+      </dl>
+      <ol className="flex-1 overflow-y-auto px-4 py-2 flex flex-col-reverse gap-0.5">
+        {snapshot.events.length === 0 && <li className="text-slate-500">{t('diagnostics.noEvents')}</li>}
+        {snapshot.events.slice(-SHOWN_EVENTS).map((event, i) => (
+          <li key={`${event.at}-${i}`} className="flex gap-2">
+            <span className="text-slate-500 shrink-0">{formatTime(event.at)}</span>
+            <span className={`shrink-0 w-20 ${KIND_STYLES[event.kind]}`}>{event.kind}</span>
+            <span className="break-all">{event.detail}</span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default DiagnosticsPanel;
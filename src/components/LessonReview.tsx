@@ -0,0 +1,116 @@
+import React from 'react';
+import type { CompletedLesson } from '../types';
+import { formatClock, formatElapsed } from '../services/timeFormat';
+import { finalVerdict } from '../services/pronunciationResults';
+import { VERDICT_STYLES } from '../constants';
+import { useI18n } from '../i18n';
+import ConversationLog from './ConversationLog';
+
+interface LessonReviewProps {
+  lesson: CompletedLesson;
+  onClose: () => void;
+}
+
+const LessonReview: React.FC<LessonReviewProps> = ({ lesson, onClose }) => {
+  const { t, num } = useI18n();
+  const { subject, unitTitle, startedAt, endedAt, messages, pronunciation } = lesson;
+  const practicedWords = Object.values(pronunciation).filter(attempts => attempts.length > 0);
+  const studentTurns = messages.filter(m => m.role === 'user');
+  const spokenTurns = studentTurns.filter(m => m.source === 'voice').length;
+  const typedTurns = studentTurns.length - spokenTurns;
+  const tutorTurns = messages.length - studentTurns.length;
+
+  return (
+    <div className="flex flex-col gap-6 flex-1 animate-fade-in">
+      {lesson.endReason === 'time-limit' && (
+        <div className="p-4 bg-green-100 border border-green-200 text-green-800 rounded-2xl text-center font-bold">
+          {t('review.timeLimit')}
+        </div>
+      )}
+      <div className="bg-white p-6 md:p-8 rounded-3xl shadow-xl w-full border-t-8 border-sky-400">
+        <span className="text-[10px] font-bold text-sky-400 uppercase tracking-widest">{t('review.label')}</span>
+        <h2 className="text-xl md:text-2xl font-bold text-sky-900">{subject}</h2>
+        <p className="text-sky-700 font-medium text-sm md:text-base">{unitTitle}</p>
+        <p className="text-sky-600 text-sm mt-1">
+          {t('review.timeRange', {
+            start: num(formatClock(startedAt)),
+            end: num(formatClock(endedAt)),
+            duration: num(formatElapsed(endedAt - startedAt)),
+          })}
+        </p>
+        <div className="mt-4 grid grid-cols-3 gap-3 text-center">
+          <div className="bg-sky-50 rounded-2xl p-3">
+            <p className="text-2xl font-bold text-sky-900">{num(tutorTurns)}</p>
+            <p className="text-[10px] md:text-xs font-bold text-sky-500 uppercase">{t('review.tutorTurns')}</p>
+          </div>
+          <div className="bg-orange-50 rounded-2xl p-3">
+            <p className="text-2xl font-bold text-orange-900">{num(spokenTurns)}</p>
+            <p className="text-[10px] md:text-xs font-bold text-orange-500 uppercase">{t('review.spokenTurns')}</p>
+          </div>
+          <div className="bg-orange-50 rounded-2xl p-3">
+            <p className="text-2xl font-bold text-orange-900">{num(typedTurns)}</p>
+            <p className="text-[10px] md:text-xs font-bold text-orange-500 uppercase">{t('review.typedTurns')}</p>
+          </div>
+        </div>
+      </div>
+
+      {practicedWords.length > 0 && (
+        <div className="bg-white p-5 md:p-6 rounded-3xl shadow-lg border-2 border-pink-100">
+          <h3 className="font-bold text-sky-800 text-sm md:text-base mb-3">{t('review.pronunciation')}</h3>
+          <table className="w-full text-left text-sm md:text-base">
+            <thead>
+              <tr className="text-[10px] md:text-xs font-bold text-pink-400 uppercase">
+                <th className="py-2">{t('review.word')}</th>
+                <th className="py-2">{t('review.tries')}</th>
+                <th className="py-2">{t('review.result')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {practicedWords.map((attempts) => {
+                const verdict = finalVerdict(attempts)!;
+                return (
+                  <tr key={attempts[0].word} className="border-t border-pink-50">
+                    <td className="py-2 font-bold text-sky-900">{attempts[0].word}</td>
+                    <td className="py-2">
+                      <div className="flex gap-1">
+                        {attempts.map((a) => (
+                          <span
+                            key={`${a.attempt}-${a.timestamp}`}
+                            title={t('word.try', { attempt: a.attempt, verdict: t(`verdict.${a.verdict}`) })}
+                            className={`w-5 h-5 rounded-full ${VERDICT_STYLES[a.verdict].dot}`}
+                          />
+                        ))}
+                      </div>
+                    </td>
+                    <td className="py-2">
+                      <span className={`px-3 py-0.5 rounded-full font-bold text-xs ${VERDICT_STYLES[verdict].badge}`}>{t(`verdict.${verdict}`)}</span>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="bg-white p-5 md:p-6 rounded-3xl shadow-lg border-2 border-sky-100 flex flex-col h-[60vh]">
+        <h3 className="font-bold text-sky-800 text-sm md:text-base mb-3">{t('review.transcript')}</h3>
+        <ConversationLog
+          messages={messages}
+          startedAt={startedAt}
+          autoScroll={false}
+          emptyText={t('review.empty')}
+        />
+      </div>
+
+      <button
+        onClick={onClose}
+        className="self-center px-6 py-3 bg-orange-500 hover:bg-orange-600 text-white font-bold rounded-full shadow-md transition-colors"
+      >
+        {t('review.chooseAnother')}
+      </button>
+    </div>
+  );
+};
+
+export default LessonReview;
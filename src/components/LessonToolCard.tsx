@@ -0,0 +1,33 @@
+import React from 'react';
+import { findTool, type ToolCard } from '../tools';
+import type { ImageBlob } from '../services/cameraCapture';
+import { useI18n } from '../i18n';
+
+interface LessonToolCardProps {
+  card: ToolCard;
+  onAnswer: (text: string) => void;
+  onImage: (image: ImageBlob, text: string) => void;
+  onDismiss: () => void;
+}
+
+const LessonToolCard: React.FC<LessonToolCardProps> = ({ card, onAnswer, onImage, onDismiss }) => {
+  const { t } = useI18n();
+  const Card = findTool(card.tool)?.Card;
+  if (!Card) return null;
+
+  return (
+    <div className="relative bg-white p-5 md:p-8 rounded-3xl shadow-xl border-4 border-green-200 animate-fade-in">
+      <button
+        onClick={onDismiss}
+        className="absolute top-3 right-3 w-8 h-8 rounded-full text-sky-400 hover:bg-sky-50 hover:text-sky-600 font-bold"
+        title={t('common.hide')}
+      >
+        ✕
+      </button>
+      {/* A new card remounts, so answered state never carries over to the next question. */}
+      <Card key={card.id} data={card.data} onAnswer={onAnswer} onImage={onImage} />
+    </div>
+  );
+};
+
+export default LessonToolCard;
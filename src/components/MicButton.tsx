@@ -0,0 +1,74 @@
+import React from 'react';
+import { useI18n } from '../i18n';
+
+interface MicButtonProps {
+  /** Live lessons toggle the mic; turn-by-turn lessons talk while the button is held. */
+  mode: 'live' | 'turns';
+  isMuted: boolean;
+  isHolding: boolean;
+  /** While the teacher has paused the tutor in classroom mode. */
+  disabled?: boolean;
+  onToggleMute: () => void;
+  onStartTalking: () => void;
+  onStopTalking: () => void;
+}
+
+const MicButton: React.FC<MicButtonProps> = ({ mode, isMuted, isHolding, disabled = false, onToggleMute, onStartTalking, onStopTalking }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="fixed bottom-10 left-1/2 -translate-x-1/2 z-50 flex flex-col items-center gap-2">
+      {mode === 'turns' ? (
+        <>
+          <button
+            onPointerDown={onStartTalking}
+            onPointerUp={onStopTalking}
+            onPointerLeave={onStopTalking}
+            onPointerCancel={onStopTalking}
+            onContextMenu={(e) => e.preventDefault()}
+            disabled={disabled}
+            className={`w-20 h-20 rounded-full shadow-2xl flex items-center justify-center transition-all transform select-none touch-none disabled:opacity-50 ${
+              isHolding ? 'bg-green-500 scale-110' : 'bg-sky-500 hover:bg-sky-600 scale-100'
+            }`}
+          >
+            <span className="text-4xl text-white">🎤</span>
+            {isHolding && (
+              <span className="absolute inset-0 rounded-full bg-green-400 animate-ping opacity-25"></span>
+            )}
+          </button>
+          <span className={`text-[10px] md:text-xs font-bold px-3 py-1 rounded-full shadow-sm border ${
+            isHolding ? 'bg-green-100 text-green-700 border-green-200' : 'bg-sky-100 text-sky-700 border-sky-200'
+          }`}>
+            {isHolding ? t('turns.talking') : t('turns.holdToTalk')}
+          </span>
+        </>
+      ) : (
+        <>
+          <button
+            onClick={onToggleMute}
+            disabled={disabled}
+            className={`w-16 h-16 rounded-full shadow-2xl flex items-center justify-center transition-all transform active:scale-95 disabled:opacity-50 ${
+              isMuted 
+              ? 'bg-red-500 hover:bg-red-600 scale-90' 
+              : 'bg-sky-500 hover:bg-sky-600 scale-100'
+            }`}
+          >
+            <span className="text-3xl text-white">
+              {isMuted ? '🔇' : '🎤'}
+            </span>
+            {!isMuted && (
+              <span className="absolute inset-0 rounded-full bg-sky-400 animate-ping opacity-25"></span>
+            )}
+          </button>
+          <span className={`text-[10px] md:text-xs font-bold px-3 py-1 rounded-full shadow-sm border ${
+            isMuted ? 'bg-red-100 text-red-700 border-red-200' : 'bg-sky-100 text-sky-700 border-sky-200'
+          }`}>
+            {isMuted ? t('app.micOff') : t('app.micOn')}
+          </span>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MicButton;
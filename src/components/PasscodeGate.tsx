@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import { hasPasscode, passcodeLockedUntil, setPasscode, verifyPasscode } from '../services/passcode';
+import { useI18n, type MessageKey } from '../i18n';
+
+interface PasscodeGateProps {
+  /** Which passcode guards this screen; each name is stored separately. */
+  name: string;
+  title: string;
+  /** A numeric PIN instead of a free-form passcode. */
+  digitsOnly?: boolean;
+  onUnlock: () => void;
+  onCancel: () => void;
+}
+
+const MIN_PASSCODE_LENGTH = 4;
+
+const PasscodeGate: React.FC<PasscodeGateProps> = ({ name, title, digitsOnly = false, onUnlock, onCancel }) => {
+  const { t } = useI18n();
+  // A new passcode is only chosen after a grown-up has said they are one, in `intro`.
+  const [mode, setMode] = useState<'loading' | 'intro' | 'create' | 'enter'>('loading');
+  const [passcode, setPasscodeInput] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<MessageKey | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [lockedUntil, setLockedUntil] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+  const isLocked = lockedUntil > now;
+  const kind = t(digitsOnly ? 'passcode.pin' : 'passcode.passcode');
+  const keepValid = (value: string) => (digitsOnly ? value.replace(/\D/g, '') : value);
+
+  useEffect(() => {
+    Promise.all([hasPasscode(name), passcodeLockedUntil(name)])
+      .then(([exists, until]) => {
+        setMode(exists ? 'enter' : 'intro');
+        setLockedUntil(until);
+        setNow(Date.now());
+      })
+      .catch(() => setError('passcode.loadFailed'));
+  }, [name]);
+
+  useEffect(() => {
+    if (!isLocked) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isLocked]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isChecking || isLocked) return;
+    setError(null);
+
+    if (mode === 'intro') {
+      setMode('create');
+      return;
+    }
+
+    if (mode === 'create') {
+      if (passcode.length < MIN_PASSCODE_LENGTH) {
+        setError(digitsOnly ? 'passcode.tooShortDigits' : 'passcode.tooShortChars');
+        return;
+      }
+      if (passcode !== confirmation) {
+        setError('passcode.mismatch');
+        return;
+      }
+    }
+
+    setIsChecking(true);
+    try {
+      if (mode === 'create') {
+        await setPasscode(name, passcode);
+        onUnlock();
+      } else if (await verifyPasscode(name, passcode)) {
+        onUnlock();
+      } else {
+        setError('passcode.wrong');
+        setPasscodeInput('');
+        setLockedUntil(await passcodeLockedUntil(name));
+        setNow(Date.now());
+      }
+    } catch (err) {
+      console.error('Passcode check failed', err);
+      setError('passcode.checkFailed');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="bg-white p-6 md:p-8 rounded-3xl shadow-xl w-full max-w-md mx-auto border-t-8 border-sky-700 animate-fade-in"
+    >
+      <h2 className="text-xl md:text-2xl font-bold text-sky-900 mb-2 text-center">🔒 {title}</h2>
+      <p className="text-sky-600 text-center mb-6 text-sm">
+        {mode === 'intro'
+          ? t('passcode.setupIntro', { kind })
+          : mode === 'create'
+            ? t('passcode.choose', { kind })
+            : t('passcode.adultsOnly')}
+      </p>
+
+      {mode !== 'intro' && (
+        <input
+          type="password"
+          value={passcode}
+          onChange={(e) => setPasscodeInput(keepValid(e.target.value))}
+          placeholder={digitsOnly ? t('passcode.pin') : t('passcode.placeholder')}
+          inputMode={digitsOnly ? 'numeric' : undefined}
+          autoFocus
+          disabled={mode === 'loading' || isLocked}
+          className="w-full px-4 py-3 mb-3 rounded-2xl border-2 border-sky-200 focus:border-sky-400 focus:outline-none text-lg"
+        />
+      )}
+      {mode === 'create' && (
+        <input
+          type="password"
+          value={confirmation}
+          onChange={(e) => setConfirmation(keepValid(e.target.value))}
+          inputMode={digitsOnly ? 'numeric' : undefined}
+          placeholder={t('passcode.confirm')}
+          className="w-full px-4 py-3 mb-3 rounded-2xl border-2 border-sky-200 focus:border-sky-400 focus:outline-none text-lg"
+        />
+      )}
+      {error && <p className="text-red-600 text-sm font-medium mb-3">{t(error, { kind, min: MIN_PASSCODE_LENGTH })}</p>}
+      {isLocked && (
+        <p className="text-red-600 text-sm font-medium mb-3">
+          {t('passcode.locked', { seconds: Math.ceil((lockedUntil - now) / 1000) })}
+        </p>
+      )}
+
+      <div className="flex gap-3 justify-center mt-3">
+        <button type="button" onClick={onCancel} className="px-6 py-3 rounded-full font-bold text-sky-600 hover:bg-sky-50">
+          {t('common.cancel')}
+        </button>
+        <button
+          type="submit"
+          disabled={(mode !== 'intro' && !passcode) || isChecking || isLocked || mode === 'loading'}
+          className="px-6 py-3 bg-sky-700 hover:bg-sky-800 disabled:opacity-50 text-white font-bold rounded-full shadow-md transition-colors"
+        >
+          {mode === 'intro' ? t('passcode.iAmAnAdult') : mode === 'create' ? t('passcode.set', { kind }) : t('passcode.unlock')}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default PasscodeGate;
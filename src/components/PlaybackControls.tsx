@@ -0,0 +1,52 @@
+import React from 'react';
+import { useI18n } from '../i18n';
+
+interface PlaybackControlsProps {
+  canReplay: boolean;
+  onReplay: () => void;
+  slow: boolean;
+  onSlowChange: (slow: boolean) => void;
+  /** 0 to 1. */
+  volume: number;
+  onVolumeChange: (volume: number) => void;
+}
+
+const PlaybackControls: React.FC<PlaybackControlsProps> = ({ canReplay, onReplay, slow, onSlowChange, volume, onVolumeChange }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="flex items-center gap-2 flex-wrap">
+      <button
+        onClick={onReplay}
+        disabled={!canReplay}
+        title={t('playback.replayTitle')}
+        className="px-3 py-1 rounded-full text-xs md:text-sm font-bold bg-orange-100 text-orange-700 hover:bg-orange-200 disabled:opacity-40 transition-colors"
+      >
+        {t('playback.replay')}
+      </button>
+      <button
+        onClick={() => onSlowChange(!slow)}
+        title={t('playback.slowTitle')}
+        aria-pressed={slow}
+        className={`px-3 py-1 rounded-full text-xs md:text-sm font-bold transition-colors ${slow ? 'bg-sky-600 text-white' : 'bg-sky-100 text-sky-700 hover:bg-sky-200'}`}
+      >
+        {t('playback.slow')}
+      </button>
+      <label className="flex items-center gap-1 text-sm" title={t('playback.volume')}>
+        <span aria-hidden>{volume === 0 ? '🔈' : '🔊'}</span>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.1}
+          value={volume}
+          onChange={(e) => onVolumeChange(Number(e.target.value))}
+          aria-label={t('playback.volume')}
+          className="w-20 md:w-24 accent-sky-500"
+        />
+      </label>
+    </div>
+  );
+};
+
+export default PlaybackControls;
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import type { PreferredLanguage, StudentProfile } from '../types';
+import { DEFAULT_GRADE, GRADES } from '../services/gradeLevels';
+import { PROFILE_AVATARS, type NewProfileInput } from '../services/profiles';
+import { useI18n } from '../i18n';
+
+interface ProfilePickerProps {
+  profiles: StudentProfile[];
+  onSelect: (profile: StudentProfile) => void;
+  onCreate: (input: NewProfileInput) => Promise<void>;
+}
+
+const LANGUAGES: { id: PreferredLanguage; label: string }[] = [
+  { id: 'Nepali', label: 'नेपाली' },
+  { id: 'English', label: 'English' },
+];
+
+const ProfilePicker: React.FC<ProfilePickerProps> = ({ profiles, onSelect, onCreate }) => {
+  const { t, num } = useI18n();
+  const [isAdding, setIsAdding] = useState(profiles.length === 0);
+  const [name, setName] = useState('');
+  const [grade, setGrade] = useState(DEFAULT_GRADE);
+  const [preferredLanguage, setPreferredLanguage] = useState<PreferredLanguage>('Nepali');
+  const [avatar, setAvatar] = useState(PROFILE_AVATARS[0]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleCreate = async () => {
+    if (!name.trim() || isSaving) return;
+    setIsSaving(true);
+    try {
+      await onCreate({ name, grade, preferredLanguage, avatar });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isAdding) {
+    return (
+      <div className="bg-white p-6 md:p-8 rounded-3xl shadow-xl w-full border-t-8 border-sky-400 animate-fade-in">
+        <h2 className="text-xl md:text-2xl font-bold text-sky-800 mb-6 text-center">{t('profiles.newTitle')}</h2>
+
+        <label className="block text-sm font-bold text-sky-700 mb-2">{t('profiles.name')}</label>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={30}
+          autoFocus
+          className="w-full px-4 py-3 mb-6 rounded-2xl border-2 border-sky-200 focus:border-sky-400 focus:outline-none text-lg"
+        />
+
+        <p className="text-sm font-bold text-sky-700 mb-2">{t('profiles.grade')}</p>
+        <div className="flex gap-2 mb-6">
+          {GRADES.map((g) => (
+            <button
+              key={g}
+              onClick={() => setGrade(g)}
+              className={`w-12 h-12 rounded-xl font-bold text-lg transition-colors ${grade === g ? 'bg-sky-500 text-white' : 'bg-sky-50 text-sky-700 hover:bg-sky-100'}`}
+            >
+              {num(g)}
+            </button>
+          ))}
+        </div>
+
+        <p className="text-sm font-bold text-sky-700 mb-2">{t('profiles.language')}</p>
+        <div className="flex gap-2 mb-6">
+          {LANGUAGES.map((l) => (
+            <button
+              key={l.id}
+              onClick={() => setPreferredLanguage(l.id)}
+              className={`px-5 py-2 rounded-full font-bold transition-colors ${preferredLanguage === l.id ? 'bg-orange-500 text-white' : 'bg-orange-50 text-orange-700 hover:bg-orange-100'}`}
+            >
+              {l.label}
+            </button>
+          ))}
+        </div>
+
+        <p className="text-sm font-bold text-sky-700 mb-2">{t('profiles.picture')}</p>
+        <div className="flex flex-wrap gap-2 mb-8">
+          {PROFILE_AVATARS.map((a) => (
+            <button
+              key={a}
+              onClick={() => setAvatar(a)}
+              className={`w-12 h-12 rounded-full text-2xl transition-transform ${avatar === a ? 'bg-orange-100 ring-4 ring-orange-300 scale-110' : 'bg-sky-50 hover:scale-105'}`}
+            >
+              {a}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex gap-3 justify-center">
+          {profiles.length > 0 && (
+            <button onClick={() => setIsAdding(false)} className="px-6 py-3 rounded-full font-bold text-sky-600 hover:bg-sky-50">
+              {t('common.cancel')}
+            </button>
+          )}
+          <button
+            onClick={handleCreate}
+            disabled={!name.trim() || isSaving}
+            className="px-6 py-3 bg-orange-500 hover:bg-orange-600 disabled:opacity-50 text-white font-bold rounded-full shadow-md transition-colors"
+          >
+            {t('profiles.start')}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white p-6 md:p-8 rounded-3xl shadow-xl w-full border-t-8 border-sky-400 animate-fade-in">
+      <h2 className="text-xl md:text-2xl font-bold text-sky-800 mb-2 text-center">{t('profiles.whoTitle')}</h2>
+      <p className="text-sky-600 text-center mb-8 text-sm md:text-base">{t('profiles.tapPicture')}</p>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+        {profiles.map((profile) => (
+          <button
+            key={profile.id}
+            onClick={() => onSelect(profile)}
+            className="group p-4 rounded-2xl border-2 border-sky-100 hover:border-sky-300 hover:shadow-md transition-all flex flex-col items-center gap-2"
+          >
+            <span className="w-16 h-16 bg-orange-100 rounded-full flex items-center justify-center text-4xl group-hover:scale-110 transition-transform">
+              {profile.avatar}
+            </span>
+            <span className="font-bold text-sky-900 text-lg">{profile.name}</span>
+            <span className="text-xs font-bold text-sky-500">{t('profiles.gradeN', { grade: profile.grade })}</span>
+          </button>
+        ))}
+        <button
+          onClick={() => setIsAdding(true)}
+          className="p-4 rounded-2xl border-2 border-dashed border-sky-200 hover:border-sky-400 transition-all flex flex-col items-center justify-center gap-2 text-sky-500"
+        >
+          <span className="w-16 h-16 bg-sky-50 rounded-full flex items-center justify-center text-4xl">＋</span>
+          <span className="font-bold">{t('profiles.newLearner')}</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ProfilePicker;
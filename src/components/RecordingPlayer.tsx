@@ -0,0 +1,94 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { LessonRecording } from '../types';
+import { formatClock, formatElapsed } from '../services/timeFormat';
+import { downloadFile } from '../services/reportExport';
+import { useI18n } from '../i18n';
+
+interface RecordingPlayerProps {
+  recording: LessonRecording;
+  onDelete: () => void;
+  onClose: () => void;
+}
+
+const RecordingPlayer: React.FC<RecordingPlayerProps> = ({ recording, onDelete, onClose }) => {
+  const { t, num } = useI18n();
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [positionMs, setPositionMs] = useState(0);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    const url = URL.createObjectURL(recording.audio);
+    audio.src = url;
+    return () => {
+      audio.removeAttribute('src');
+      URL.revokeObjectURL(url);
+    };
+  }, [recording.audio]);
+
+  // Lines are in time order, so the one being heard is the last that started before the playhead.
+  const currentIndex = recording.transcript.filter(line => line.offsetMs <= positionMs).length - 1;
+
+  const jumpTo = (offsetMs: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = offsetMs / 1000;
+    audio.play().catch(err => console.error('Could not play recording:', err));
+  };
+
+  const download = () => {
+    const date = new Date(recording.startedAt).toISOString().slice(0, 10);
+    downloadFile(`sathi-recording-${recording.studentName}-${date}.wav`, recording.audio, 'audio/wav');
+  };
+
+  return (
+    <div className="bg-white p-5 md:p-6 rounded-3xl shadow-lg border-2 border-sky-100 animate-fade-in">
+      <div className="flex items-start justify-between gap-4 flex-wrap mb-3">
+        <div>
+          <h3 className="font-bold text-sky-900 text-lg">{recording.subject}</h3>
+          <p className="text-xs md:text-sm text-sky-600">
+            {recording.unitTitle} · {num(`${new Date(recording.startedAt).toLocaleDateString()} ${formatClock(recording.startedAt)}`)} · {num(formatElapsed(recording.durationMs))}
+          </p>
+        </div>
+        <div className="flex gap-2 flex-wrap">
+          <button onClick={download} className="px-3 py-1 rounded-full text-xs font-bold bg-sky-50 text-sky-700 hover:bg-sky-100">
+            {t('recording.download')}
+          </button>
+          <button onClick={onDelete} className="px-3 py-1 rounded-full text-xs font-bold bg-red-50 text-red-700 hover:bg-red-100">
+            {t('recording.delete')}
+          </button>
+          <button onClick={onClose} className="px-3 py-1 rounded-full text-xs font-bold bg-sky-700 text-white hover:bg-sky-800">
+            {t('common.close')}
+          </button>
+        </div>
+      </div>
+
+      <audio
+        ref={audioRef}
+        controls
+        onTimeUpdate={(e) => setPositionMs(e.currentTarget.currentTime * 1000)}
+        className="w-full mb-3"
+      />
+
+      <p className="text-xs text-sky-500 mb-2">{t('recording.hint')}</p>
+      <ol className="flex flex-col gap-1 max-h-[40vh] overflow-y-auto">
+        {recording.transcript.map((line, i) => (
+          <li key={`${line.offsetMs}-${i}`}>
+            <button
+              onClick={() => jumpTo(line.offsetMs)}
+              className={`w-full text-left px-3 py-2 rounded-xl flex gap-3 text-sm transition-colors ${i === currentIndex ? 'bg-orange-100' : 'hover:bg-sky-50'}`}
+            >
+              <span className="text-sky-400 font-mono shrink-0">{num(formatElapsed(line.offsetMs))}</span>
+              <span className={`font-bold shrink-0 ${line.role === 'model' ? 'text-sky-700' : 'text-orange-700'}`}>
+                {line.role === 'model' ? t('recording.tutor') : recording.studentName}
+              </span>
+              <span className="text-sky-900">{line.text}</span>
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default RecordingPlayer;
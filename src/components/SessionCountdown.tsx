@@ -0,0 +1,31 @@
+import React, { useEffect, useState } from 'react';
+import { formatElapsed } from '../services/timeFormat';
+import { useI18n } from '../i18n';
+
+interface SessionCountdownProps {
+  endsAt: number;
+}
+
+// Only shown near the end, so the clock is not a distraction for most of the lesson.
+const SHOW_WITHIN_MS = 5 * 60 * 1000;
+
+const SessionCountdown: React.FC<SessionCountdownProps> = ({ endsAt }) => {
+  const { t, num } = useI18n();
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const remaining = endsAt - now;
+  if (remaining > SHOW_WITHIN_MS) return null;
+
+  return (
+    <div className="h-10 px-3 rounded-full bg-amber-100 text-amber-800 flex items-center gap-1 font-bold text-xs" title={t('app.timeLeft')}>
+      ⏱ {num(formatElapsed(remaining))}
+    </div>
+  );
+};
+
+export default SessionCountdown;
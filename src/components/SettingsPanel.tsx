@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import type { TutorVoice } from '../types';
+import { SESSION_LENGTH_OPTIONS, type AppSettings } from '../services/settings';
+import { useI18n } from '../i18n';
+
+interface SettingsPanelProps {
+  settings: AppSettings;
+  onSave: (settings: AppSettings) => Promise<void>;
+  onClose: () => void;
+}
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onSave, onClose }) => {
+  const { t } = useI18n();
+  const [maxSessionMinutes, setMaxSessionMinutes] = useState(settings.maxSessionMinutes);
+  const [nepaliNumerals, setNepaliNumerals] = useState(settings.nepaliNumerals);
+  const [recordLessons, setRecordLessons] = useState(settings.recordLessons);
+  const [tutorVoice, setTutorVoice] = useState<TutorVoice>(settings.tutorVoice);
+  const [blockedTerms, setBlockedTerms] = useState(settings.blockedTerms.join('\n'));
+  const [isSaving, setIsSaving] = useState(false);
+  const [hasError, setHasError] = useState(false);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setHasError(false);
+    try {
+      await onSave({
+        ...settings,
+        maxSessionMinutes,
+        nepaliNumerals,
+        recordLessons,
+        tutorVoice,
+        blockedTerms: blockedTerms.split(/[\n,]/).map(t => t.trim()).filter(Boolean),
+      });
+      onClose();
+    } catch (err) {
+      console.error('Could not save settings:', err);
+      setHasError(true);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 md:p-8 rounded-3xl shadow-xl w-full border-t-8 border-sky-700 animate-fade-in">
+      <span className="text-[10px] font-bold text-sky-400 uppercase tracking-widest">{t('settings.label')}</span>
+      <h2 className="text-xl md:text-2xl font-bold text-sky-900 mb-6">{t('settings.title')}</h2>
+
+      <p className="text-sm font-bold text-sky-700 mb-2">{t('settings.longest')}</p>
+      <p className="text-xs text-sky-500 mb-2">{t('settings.longestHint')}</p>
+      <div className="flex flex-wrap gap-2 mb-6">
+        {SESSION_LENGTH_OPTIONS.map((minutes) => (
+          <button
+            key={minutes}
+            onClick={() => setMaxSessionMinutes(minutes)}
+            className={`px-4 py-2 rounded-full font-bold transition-colors ${maxSessionMinutes === minutes ? 'bg-sky-600 text-white' : 'bg-sky-50 text-sky-700 hover:bg-sky-100'}`}
+          >
+            {t('settings.minutes', { minutes })}
+          </button>
+        ))}
+      </div>
+
+      <label className="block text-sm font-bold text-sky-700 mb-2">{t('settings.blocked')}</label>
+      <p className="text-xs text-sky-500 mb-2">{t('settings.blockedHint')}</p>
+      <textarea
+        value={blockedTerms}
+        onChange={(e) => setBlockedTerms(e.target.value)}
+        rows={5}
+        className="w-full px-4 py-3 mb-6 rounded-2xl border-2 border-sky-200 focus:border-sky-400 focus:outline-none"
+      />
+
+      <p className="text-sm font-bold text-sky-700 mb-2">{t('settings.numerals')}</p>
+      <p className="text-xs text-sky-500 mb-2">{t('settings.numeralsHint')}</p>
+      <div className="flex gap-2 mb-6">
+        {[false, true].map((nepali) => (
+          <button
+            key={String(nepali)}
+            onClick={() => setNepaliNumerals(nepali)}
+            className={`px-4 py-2 rounded-full font-bold transition-colors ${nepaliNumerals === nepali ? 'bg-sky-600 text-white' : 'bg-sky-50 text-sky-700 hover:bg-sky-100'}`}
+          >
+            {t(nepali ? 'settings.numeralsNepali' : 'settings.numeralsWestern')}
+          </button>
+        ))}
+      </div>
+
+      <p className="text-sm font-bold text-sky-700 mb-2">{t('settings.voice')}</p>
+      <div className="flex gap-2 mb-6">
+        {(['didi', 'daju'] as const).map((voice) => (
+          <button
+            key={voice}
+            onClick={() => setTutorVoice(voice)}
+            className={`px-4 py-2 rounded-full font-bold transition-colors ${tutorVoice === voice ? 'bg-sky-600 text-white' : 'bg-sky-50 text-sky-700 hover:bg-sky-100'}`}
+          >
+            {t(voice === 'didi' ? 'settings.voiceDidi' : 'settings.voiceDaju')}
+          </button>
+        ))}
+      </div>
+
+      <p className="text-sm font-bold text-sky-700 mb-2">{t('settings.record')}</p>
+      <p className="text-xs text-sky-500 mb-2">{t('settings.recordHint')}</p>
+      <div className="flex gap-2 mb-6">
+        {[false, true].map((record) => (
+          <button
+            key={String(record)}
+            onClick={() => setRecordLessons(record)}
+            className={`px-4 py-2 rounded-full font-bold transition-colors ${recordLessons === record ? 'bg-sky-600 text-white' : 'bg-sky-50 text-sky-700 hover:bg-sky-100'}`}
+          >
+            {t(record ? 'settings.recordOn' : 'settings.recordOff')}
+          </button>
+        ))}
+      </div>
+
+      {hasError && <p className="text-red-600 text-sm font-medium mb-3">{t('settings.saveError')}</p>}
+      <div className="flex gap-3 justify-end">
+        <button onClick={onClose} className="px-6 py-3 rounded-full font-bold text-sky-600 hover:bg-sky-50">
+          {t('common.cancel')}
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="px-6 py-3 bg-sky-700 hover:bg-sky-800 disabled:opacity-50 text-white font-bold rounded-full shadow-md transition-colors"
+        >
+          {t('common.save')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
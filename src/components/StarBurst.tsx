@@ -0,0 +1,41 @@
+import React from 'react';
+import type { EarnedBadge } from '../types';
+import BadgeChip from './BadgeChip';
+import { useI18n } from '../i18n';
+
+interface StarBurstProps {
+  reason: string;
+  /** The student's star total including this one. */
+  total: number;
+  /** Badges this star earned, celebrated along with it. */
+  badges: EarnedBadge[];
+  /** Called when the animation has played out. */
+  onDone: () => void;
+}
+
+const StarBurst: React.FC<StarBurstProps> = ({ reason, total, badges, onDone }) => {
+  const { t } = useI18n();
+
+  return (
+    <div
+      className="fixed top-24 left-1/2 -translate-x-1/2 z-50 pointer-events-none flex flex-col items-center gap-2 animate-star-award"
+      style={{ animationDuration: badges.length > 0 ? '4.5s' : '3s' }}
+      onAnimationEnd={onDone}
+      role="status"
+    >
+      <div className="text-8xl md:text-9xl drop-shadow-lg" aria-hidden>⭐</div>
+      <p className="px-4 py-2 rounded-full bg-white shadow-lg border-2 border-amber-300 text-amber-800 text-lg md:text-xl font-bold text-center">
+        {reason}
+      </p>
+      <p className="text-sm font-bold text-amber-700">{t('rewards.total', { count: total })}</p>
+      {badges.length > 0 && (
+        <div className="flex flex-col items-center gap-1 bg-white/90 rounded-2xl p-3 shadow-lg">
+          <p className="text-sm font-bold text-sky-800">{t('rewards.newBadge')}</p>
+          {badges.map(badge => <BadgeChip key={badge.id} badge={badge} />)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StarBurst;
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import type { CurriculumPack, CurriculumUnit, StudentRewards } from '../types';
+import { unitsForGrade } from '../services/curriculum';
+import { currentStreak } from '../services/rewards';
+import { useI18n } from '../i18n';
+import BadgeChip from './BadgeChip';
+
+interface SubjectPickerProps {
+  studentName?: string;
+  /** Only the units taught in this grade are offered. */
+  grade: number;
+  rewards?: StudentRewards;
+  packs: CurriculumPack[];
+  onStart: (pack: CurriculumPack, unit: CurriculumUnit) => void;
+  isConnecting: boolean;
+  connectingPackId: string | null;
+}
+
+const Spinner = () => (
+  <div className="absolute inset-0 bg-white/60 flex items-center justify-center rounded-2xl">
+    <div className="w-8 h-8 border-4 border-sky-500 border-t-transparent rounded-full animate-spin"></div>
+  </div>
+);
+
+// Only the latest few fit on a phone; the rest stay earned all the same.
+const SHOWN_BADGES = 4;
+
+const SubjectPicker: React.FC<SubjectPickerProps> = ({ studentName, grade, rewards, packs, onStart, isConnecting, connectingPackId }) => {
+  const { language, t, num } = useI18n();
+  const [openPack, setOpenPack] = useState<CurriculumPack | null>(null);
+  const [now] = useState(() => Date.now());
+  const streak = rewards ? currentStreak(rewards, now) : 0;
+
+  const gradePacks = packs.filter(pack => unitsForGrade(pack, grade).length > 0);
+
+  const choosePack = (pack: CurriculumPack) => {
+    const units = unitsForGrade(pack, grade);
+    // Single-unit subjects start straight away; the rest ask which lesson first.
+    if (units.length === 1) onStart(pack, units[0]);
+    else setOpenPack(pack);
+  };
+
+  if (openPack) {
+    return (
+      <div className="bg-white p-6 md:p-8 rounded-3xl shadow-xl w-full border-t-8 border-orange-400 animate-fade-in">
+        <button onClick={() => setOpenPack(null)} className="text-sm font-bold text-sky-500 hover:text-sky-700 mb-4">
+          {t('subjects.all')}
+        </button>
+        <div className="flex items-center gap-3 mb-6">
+          <div className={`w-12 h-12 ${openPack.color} rounded-xl flex items-center justify-center text-2xl shadow-sm`}>
+            {openPack.icon}
+          </div>
+          <div>
+            <h2 className="text-xl md:text-2xl font-bold text-sky-800">{openPack.subject}</h2>
+            <p className="text-sky-600 text-sm md:text-base">{t('subjects.whichLesson')}</p>
+          </div>
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {unitsForGrade(openPack, grade).map((unit) => (
+            <button
+              key={unit.id}
+              onClick={() => onStart(openPack, unit)}
+              disabled={isConnecting}
+              className="relative p-5 rounded-2xl border-2 border-sky-100 hover:border-sky-300 hover:shadow-md transition-all text-left flex flex-col gap-2"
+            >
+              <h3 className="text-lg font-bold text-sky-900">{unit.title}</h3>
+              <ul className="text-xs md:text-sm text-sky-700 list-disc pl-4">
+                {unit.goals.slice(0, 2).map((goal) => <li key={goal}>{goal}</li>)}
+              </ul>
+              {isConnecting && connectingPackId === openPack.id && <Spinner />}
+            </button>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white p-6 md:p-8 rounded-3xl shadow-xl w-full border-t-8 border-orange-400">
+      <h2 className="text-xl md:text-2xl font-bold text-sky-800 mb-2 text-center">
+        {studentName ? t('subjects.greeting', { name: studentName }) : t('subjects.greetingNoName')}
+      </h2>
+      <p className="text-sky-600 text-center mb-4 text-sm md:text-base">{t('subjects.choose')}</p>
+
+      <div className="flex flex-col items-center gap-2 mb-8">
+        <div className="flex items-center gap-3 flex-wrap justify-center">
+          <span className="px-4 py-1 rounded-full bg-amber-100 text-amber-800 font-bold text-sm md:text-base" title={t('rewards.starsTitle')}>
+            ⭐ {num(rewards?.stars ?? 0)}
+          </span>
+          <span className={`px-4 py-1 rounded-full font-bold text-sm md:text-base ${streak > 0 ? 'bg-orange-100 text-orange-700' : 'bg-sky-50 text-sky-500'}`}>
+            {streak > 0 ? t('rewards.streak', { count: streak }) : t('rewards.startStreak')}
+          </span>
+        </div>
+        {rewards && rewards.badges.length > 0 && (
+          <div className="flex gap-2 flex-wrap justify-center" aria-label={t('rewards.badges')}>
+            {rewards.badges.slice(-SHOWN_BADGES).reverse().map(badge => <BadgeChip key={badge.id} badge={badge} />)}
+          </div>
+        )}
+      </div>
+      
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 md:gap-6">
+        {gradePacks.map((pack) => (
+          <button
+            key={pack.id}
+            onClick={() => choosePack(pack)}
+            disabled={isConnecting}
+            className={`group relative p-6 rounded-2xl shadow-sm border-2 border-transparent hover:border-sky-300 hover:shadow-md transition-all text-left flex flex-col gap-2 ${pack.color} bg-opacity-10`}
+          >
+            <div className={`w-12 h-12 ${pack.color} rounded-xl flex items-center justify-center text-2xl shadow-sm mb-2 group-hover:scale-110 transition-transform`}>
+              {pack.icon}
+            </div>
+            <h3 className="text-lg font-bold text-sky-900">{pack.subject}</h3>
+            <p className="text-xs md:text-sm text-sky-700">{language === 'ne' && pack.descriptionNe ? pack.descriptionNe : pack.description}</p>
+            {isConnecting && connectingPackId === pack.id && <Spinner />}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SubjectPicker;
@@ -0,0 +1,50 @@
+import React from 'react';
+import type { PronunciationAttempt, TargetWord } from '../types';
+import { VERDICT_STYLES } from '../constants';
+import { finalVerdict } from '../services/pronunciationResults';
+import { useI18n } from '../i18n';
+
+interface TargetWordCardProps {
+  target: TargetWord;
+  attempts: PronunciationAttempt[];
+  /** Projector size, to be read from the back of a classroom. */
+  large?: boolean;
+}
+
+const TargetWordCard: React.FC<TargetWordCardProps> = ({ target, attempts, large = false }) => {
+  const { t } = useI18n();
+  const latest = finalVerdict(attempts);
+  const border = latest === 'correct' ? 'border-green-400' : 'border-pink-300';
+
+  return (
+    <div className={`bg-white p-8 rounded-3xl shadow-xl border-4 border-dashed ${border} flex flex-col items-center animate-fade-in transition-colors`}>
+      <span className="text-xs font-bold text-pink-400 uppercase tracking-widest mb-2">{t('word.practise')}</span>
+      <h2 className={`${large ? 'text-7xl md:text-9xl' : 'text-5xl md:text-7xl'} font-bold text-sky-900 mb-4 text-center tracking-tight`}>{target.word}</h2>
+      <div className="flex items-center gap-2 px-4 py-1 bg-pink-100 text-pink-700 rounded-full font-bold text-sm">
+        <span>{target.language === 'Nepali' ? '🇳🇵' : '🇬🇧'}</span>
+        {target.language === 'Nepali' ? t('language.nepali') : target.language === 'English' ? t('language.english') : target.language}
+      </div>
+
+      {attempts.length > 0 && latest && (
+        <div className="mt-5 flex flex-col items-center gap-2">
+          <div className="flex gap-2" aria-label={t('word.attempts', { count: attempts.length })}>
+            {attempts.map((a) => (
+              <span
+                key={`${a.attempt}-${a.timestamp}`}
+                title={t('word.try', { attempt: a.attempt, verdict: t(`verdict.${a.verdict}`) })}
+                className={`w-8 h-8 rounded-full ${VERDICT_STYLES[a.verdict].dot} text-white font-bold flex items-center justify-center shadow-sm`}
+              >
+                {VERDICT_STYLES[a.verdict].mark}
+              </span>
+            ))}
+          </div>
+          <span className={`px-4 py-1 rounded-full font-bold text-sm animate-fade-in ${VERDICT_STYLES[latest].badge}`}>
+            {t(`verdict.${latest}.cheer`)}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TargetWordCard;
@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import type { TargetWord } from '../types';
+import { useI18n } from '../i18n';
+
+interface TeacherControlsProps {
+  isPaused: boolean;
+  onTogglePause: () => void;
+  onPushWord: (target: TargetWord) => void;
+}
+
+const TeacherControls: React.FC<TeacherControlsProps> = ({ isPaused, onTogglePause, onPushWord }) => {
+  const { t } = useI18n();
+  const [word, setWord] = useState('');
+  const [language, setLanguage] = useState('Nepali');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = word.trim();
+    if (!trimmed) return;
+    onPushWord({ word: trimmed, language });
+    setWord('');
+  };
+
+  return (
+    <div className="bg-slate-800 text-white p-4 rounded-2xl shadow-lg flex flex-col md:flex-row md:items-center gap-3">
+      <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">{t('classroom.teacher')}</span>
+      <button
+        onClick={onTogglePause}
+        className={`px-5 py-2 rounded-full font-bold shadow-md transition-colors ${
+          isPaused ? 'bg-green-500 hover:bg-green-600' : 'bg-amber-500 hover:bg-amber-600'
+        }`}
+      >
+        {isPaused ? `▶ ${t('classroom.resume')}` : `⏸ ${t('classroom.pause')}`}
+      </button>
+      <form onSubmit={handleSubmit} className="flex flex-1 gap-2 flex-wrap">
+        <input
+          type="text"
+          value={word}
+          onChange={(e) => setWord(e.target.value)}
+          maxLength={40}
+          placeholder={t('classroom.wordPlaceholder')}
+          className="flex-1 min-w-40 px-4 py-2 rounded-full text-slate-900 focus:outline-none"
+        />
+        <select
+          value={language}
+          onChange={(e) => setLanguage(e.target.value)}
+          className="px-3 py-2 rounded-full text-slate-900 bg-white focus:outline-none"
+        >
+          <option value="Nepali">{t('language.nepali')}</option>
+          <option value="English">{t('language.english')}</option>
+        </select>
+        <button
+          type="submit"
+          disabled={!word.trim()}
+          className="px-5 py-2 bg-sky-500 hover:bg-sky-600 disabled:opacity-50 rounded-full font-bold shadow-md transition-colors"
+        >
+          {t('classroom.showWord')}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default TeacherControls;
@@ -0,0 +1,12 @@
+import type { CurriculumPack } from '../types';
+import { validateCurriculumPacks } from '../services/curriculum';
+
+/** Packs bundled from the JSON files next to this module. Invalid files are skipped and reported. */
+export function loadCurriculumPacks(): CurriculumPack[] {
+  const modules = import.meta.glob<unknown>('./*.json', { eager: true, import: 'default' });
+  const { packs, errors } = validateCurriculumPacks(modules);
+  for (const [file, fileErrors] of Object.entries(errors)) {
+    console.error(`Skipping curriculum pack ${file}:\n- ${fileErrors.join('\n- ')}`);
+  }
+  return packs;
+}
@@ -0,0 +1,234 @@
+/** English UI text. `{name}` placeholders are filled in by `t`. */
+export const en = {
+  'common.cancel': 'Cancel',
+  'common.close': 'Close',
+  'common.save': 'Save',
+  'common.send': 'Send',
+  'common.hide': 'Hide',
+  'common.dismiss': 'Dismiss',
+  'language.nepali': 'Nepali',
+  'language.english': 'English',
+
+  'app.tagline': 'Your Personal Daju / Didi',
+  'app.switchLanguage': 'नेपाली',
+  'app.switchLanguageTitle': 'नेपालीमा हेर्नुहोस्',
+  'app.switchLearner': 'Switch learner',
+  'app.finishLesson': 'Finish Lesson',
+  'app.motto': '"Always bilingual - explaining in Nepali first, then English. Just like a big brother or sister!"',
+  'app.importantInfo': 'Important Info',
+  'app.paidKeyNote': 'Gemini Live API requires a Paid GCP Project key.',
+  'app.currentlyLearning': 'Currently Learning',
+  'app.cameraOn': 'ON',
+  'app.cameraOffTitle': 'Turn the camera off',
+  'app.cameraOnTitle': 'Show your notebook',
+  'app.reconnecting': 'Reconnecting… Your lesson is safe!',
+  'app.conversationTitle': 'Sathi AI & You',
+  'app.thinking': "Wait a second, I'm thinking... 😊",
+  'app.micOffHint': 'Mic is OFF. Type your question below!',
+  'app.typePlaceholder': 'Type a message...',
+  'app.micOff': 'MIC OFF - Tap to Speak',
+  'app.micOn': 'MIC ON - Speaking...',
+  'app.tip': '💡 Tip: Try to say the words after me when I say "Now you try!"',
+  'app.footer': 'Made with ❤️ for the students of Nepal',
+  'app.teachersLink': 'Teachers & parents 🔒',
+  'app.settingsLink': 'Settings ⚙️',
+  'app.classroomLink': 'Classroom 🏫',
+  'app.dashboardTitle': 'Progress dashboard',
+  'app.settingsTitle': 'Parent settings',
+  'app.classroomTitle': 'Classroom lesson',
+  'app.timeLeft': 'Time left in this lesson',
+  'app.recording': 'REC',
+  'playback.replay': '🔁 Hear again',
+  'playback.replayTitle': 'Play what Sathi AI just said again',
+  'playback.slow': '🐢 Slow',
+  'playback.slowTitle': 'Make Sathi AI speak more slowly',
+  'playback.volume': 'Volume',
+  'app.recordingTitle': 'This lesson is being recorded',
+
+  'turns.modeNote': '🐢 Slow connection mode: hold the big button while you talk, then let go.',
+  'turns.holdToTalk': 'HOLD to talk',
+  'turns.talking': 'Talking… let go to send',
+  'turns.failed': 'That did not reach Sathi AI. Please try again.',
+
+  'error.connect': 'Could not connect to Sathi AI',
+
+  'profiles.newTitle': 'New learner',
+  'profiles.name': 'Name',
+  'profiles.grade': 'Grade',
+  'profiles.language': 'Language',
+  'profiles.picture': 'Picture',
+  'profiles.start': 'Start learning!',
+  'profiles.whoTitle': "Who's learning?",
+  'profiles.tapPicture': 'Tap your picture to begin.',
+  'profiles.gradeN': 'Grade {grade}',
+  'profiles.newLearner': 'New learner',
+
+  'subjects.greeting': 'Namaste {name}! What shall we learn today?',
+  'subjects.greetingNoName': 'Namaste! What shall we learn today?',
+  'subjects.choose': 'Choose a subject to start your lesson!',
+  'subjects.all': '← All subjects',
+  'subjects.whichLesson': 'Which lesson today?',
+
+  'word.practise': 'Practise this word:',
+  'word.try': 'Try {attempt}: {verdict}',
+  'word.attempts': '{count} attempts',
+  'verdict.correct': 'correct',
+  'verdict.close': 'close',
+  'verdict.incorrect': 'incorrect',
+  'verdict.correct.cheer': 'Syabash! Well done!',
+  'verdict.close.cheer': 'So close!',
+  'verdict.incorrect.cheer': 'Try again!',
+
+  'source.voice': '🎤 Spoken',
+  'source.typed': '⌨️ Typed',
+  'source.tap': '👆 Tapped',
+  'source.photo': '📷 Photo',
+  'log.interrupted': 'Interrupted',
+
+  'review.label': 'Lesson Review',
+  'review.timeRange': '{start} – {end} · Duration {duration}',
+  'review.tutorTurns': 'Tutor turns',
+  'review.spokenTurns': 'Spoken turns',
+  'review.typedTurns': 'Typed / tapped',
+  'review.pronunciation': 'Pronunciation results:',
+  'review.word': 'Word',
+  'review.tries': 'Tries',
+  'review.result': 'Result',
+  'review.transcript': 'What was said, in order:',
+  'review.empty': 'Nothing was said during this lesson.',
+  'review.chooseAnother': 'Choose another subject',
+  'review.timeLimit': "⏰ That's all the time for today's lesson. Great work — time for a break!",
+
+  'dashboard.label': 'Teacher / Parent',
+  'dashboard.allCsv': 'All as CSV',
+  'dashboard.allJson': 'All as JSON',
+  'dashboard.loadError': 'Could not load saved lessons on this device.',
+  'dashboard.empty': 'No lessons yet. Finished lessons will show up here.',
+  'dashboard.lessons': 'Lessons',
+  'dashboard.timeSpent': 'Time spent',
+  'dashboard.spokenQuestions': 'Spoken questions',
+  'dashboard.typedQuestions': 'Typed questions',
+  'dashboard.perSubject': 'Lessons per subject:',
+  'dashboard.subject': 'Subject',
+  'dashboard.time': 'Time',
+  'dashboard.safetyTitle': 'Safety alerts:',
+  'dashboard.safetyNote': 'Only the kind of alert is kept, not what was said.',
+  'dashboard.safetyBlocked': 'Tutor reply stopped',
+  'dashboard.safetyFlagged': 'Said by the student',
+  'dashboard.words': 'Words practised:',
+  'dashboard.tries': '{count} tries',
+  'dashboard.recordings': 'Recordings:',
+  'dashboard.listen': '▶ Listen',
+  'recording.hint': 'Tap a line to hear that moment.',
+  'recording.download': 'Download WAV',
+  'recording.delete': 'Delete',
+  'recording.deleteError': 'Could not delete the recording.',
+  'recording.tutor': 'Sathi AI',
+
+  'passcode.pin': 'PIN',
+  'passcode.passcode': 'passcode',
+  'passcode.placeholder': 'Passcode',
+  'passcode.choose': 'Choose a {kind} for teachers and parents.',
+  'passcode.adultsOnly': 'For teachers and parents only.',
+  'passcode.confirm': 'Type it again',
+  'passcode.tooShortDigits': 'Use at least {min} digits.',
+  'passcode.tooShortChars': 'Use at least {min} characters.',
+  'passcode.mismatch': 'The two entries do not match.',
+  'passcode.wrong': 'That {kind} is not right.',
+  'passcode.checkFailed': 'Could not check the {kind}. Please open the app over https or localhost.',
+  'passcode.loadFailed': 'Could not open saved settings on this device.',
+  'passcode.set': 'Set {kind}',
+  'passcode.unlock': 'Unlock',
+  'passcode.setupIntro': 'For parents and teachers: there is no {kind} yet. A grown-up should choose it now. Students, please ask a grown-up to help.',
+  'passcode.iAmAnAdult': 'I am a parent or teacher',
+  'passcode.locked': 'Too many wrong tries. Try again in {seconds} seconds.',
+
+  'settings.label': 'Parent settings',
+  'settings.title': 'Safety and lesson time',
+  'settings.longest': 'Longest lesson',
+  'settings.longestHint': 'Sathi AI starts wrapping up a minute before, then the lesson ends.',
+  'settings.minutes': '{minutes} min',
+  'settings.blocked': 'Blocked words',
+  'settings.blockedHint': 'One per line. If the tutor says one, its reply is stopped; if a student says one, it is hidden and noted on the dashboard. Phone numbers, emails and addresses are always removed from saved lessons and reports.',
+  'settings.numerals': 'Numbers',
+  'settings.numeralsHint': 'Show numbers with Nepali digits (१, २, ३) instead of 1, 2, 3.',
+  'settings.numeralsWestern': '1 2 3',
+  'settings.numeralsNepali': '१ २ ३',
+  'settings.voice': 'Tutor voice',
+  'settings.voiceDidi': 'Didi (sister)',
+  'settings.voiceDaju': 'Daju (brother)',
+  'settings.record': 'Recording',
+  'settings.recordHint': "Keep the audio of each lesson on this device so teachers and parents can listen on the dashboard. Only turn this on with the family's permission.",
+  'settings.recordOff': 'Off',
+  'settings.recordOn': 'Record lessons',
+  'settings.saveError': 'Could not save the settings on this device.',
+
+  'camera.live': 'CAMERA ON · Sathi AI can see',
+  'camera.preview': 'CAMERA ON · Preview',
+  'camera.photo': 'Photo',
+  'camera.turnOff': 'Turn off ✕',
+  'camera.starting': 'Starting the camera…',
+  'camera.unavailable': 'The camera is not available. You can still choose a photo.',
+  'camera.badPhoto': 'That photo could not be opened. Try another one.',
+  'camera.lastPhoto': 'Last photo sent',
+  'camera.send': '📸 Send photo',
+  'camera.stopLive': '⏹ Stop showing',
+  'camera.startLive': '🎥 Show live',
+  'camera.choose': '🖼️ Choose photo',
+  'camera.photoNote': 'Here is a photo of my book. Can you help me with it?',
+
+  'tool.myAnswer': 'My answer: {answer}',
+  'coins.rupee': 'Rupee',
+  'coins.rupees': 'Rupees',
+  'coins.total': 'Total: Rs',
+  'coins.sent': 'Sent ✓',
+  'coins.counted': 'I counted {total} Rupees.',
+  'shape.label': 'Shape',
+  'tracing.prompt': 'Trace it with your finger!',
+  'tracing.clear': '🧽 Clear',
+  'tracing.again': '🔁 Try again',
+  'tracing.done': "✓ I'm done",
+  'tracing.sent': 'Sent ✓',
+  'tracing.traced': 'I traced {text}. How did I do?',
+  'rewards.total': '{count} stars',
+  'rewards.starsTitle': 'Stars from Sathi AI',
+  'rewards.newBadge': 'New badge!',
+  'rewards.streak': '🔥 {count}-day streak',
+  'rewards.startStreak': 'Learn today to start a streak!',
+  'rewards.badges': 'Badges',
+  'badge.stars': '{count} stars in {subject}',
+  'badge.words': '{count} Pronunciation words mastered',
+  'badge.streak': '{count} days in a row',
+
+  'diagnostics.title': 'Diagnostics',
+  'diagnostics.connection': 'Connection',
+  'diagnostics.latency': 'Reply latency',
+  'diagnostics.underruns': 'Audio gaps',
+  'diagnostics.audioSent': 'Audio sent',
+  'diagnostics.audioReceived': 'Audio received',
+  'diagnostics.toolCalls': 'Tool calls',
+  'diagnostics.tokens': 'Tokens (last report)',
+  'diagnostics.noEvents': 'Nothing logged yet.',
+  'diagnostics.export': 'Export log',
+  'diagnostics.clear': 'Clear',
+  'classroom.setupTitle': 'Classroom lesson',
+  'classroom.setupIntro': 'Sathi AI teaches the whole class on the projector. Choose what to teach today.',
+  'classroom.subject': 'Subject and lesson',
+  'classroom.topic': "Today's topic",
+  'classroom.topicPlaceholder': 'e.g. Animals that live on farms',
+  'classroom.goal': 'Lesson goal',
+  'classroom.goalPlaceholder': 'e.g. Everyone can name five farm animals in English',
+  'classroom.start': 'Start class lesson',
+  'classroom.starting': 'Starting…',
+  'classroom.className': 'Grade {grade} class',
+  'classroom.paused': 'Paused by the teacher',
+  'classroom.tutor': 'Sathi AI',
+  'classroom.class': 'Class',
+  'classroom.teacher': 'Teacher',
+  'classroom.pause': 'Pause',
+  'classroom.resume': 'Continue',
+  'classroom.wordPlaceholder': 'A word for the class to say',
+  'classroom.showWord': 'Show word',
+};
+
+export type MessageKey = keyof typeof en;
@@ -0,0 +1,49 @@
+import { createContext, useContext } from 'react';
+import { en, type MessageKey } from './en';
+import { ne } from './ne';
+
+export type { MessageKey } from './en';
+
+export type UiLanguage = 'en' | 'ne';
+
+const CATALOGS: Record<UiLanguage, Record<MessageKey, string>> = { en, ne };
+
+const NEPALI_DIGITS = '०१२३४५६७८९';
+
+export function toNepaliDigits(text: string): string {
+  return text.replace(/[0-9]/g, d => NEPALI_DIGITS[Number(d)]);
+}
+
+export function translate(language: UiLanguage, key: MessageKey, params: Record<string, string | number> = {}): string {
+  return CATALOGS[language][key].replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder,
+  );
+}
+
+export interface I18n {
+  language: UiLanguage;
+  /** Looks up `key`; numbers in `params` follow the numeral setting. */
+  t: (key: MessageKey, params?: Record<string, string | number>) => string;
+  /** Formats a number or a preformatted string (a time, a count) with the chosen digits. */
+  num: (value: string | number) => string;
+}
+
+export function createI18n(language: UiLanguage, nepaliNumerals: boolean): I18n {
+  const num = (value: string | number) => (nepaliNumerals ? toNepaliDigits(String(value)) : String(value));
+  return {
+    language,
+    num,
+    t: (key, params = {}) =>
+      translate(
+        language,
+        key,
+        Object.fromEntries(Object.entries(params).map(([k, v]) => [k, typeof v === 'number' ? num(v) : v])),
+      ),
+  };
+}
+
+export const I18nContext = createContext<I18n>(createI18n('ne', false));
+
+export function useI18n(): I18n {
+  return useContext(I18nContext);
+}
@@ -0,0 +1,234 @@
+import type { MessageKey } from './en';
+
+/** Nepali UI text. Every English key must have an entry here. */
+export const ne: Record<MessageKey, string> = {
+  'common.cancel': 'रद्द गर्नुहोस्',
+  'common.close': 'बन्द गर्नुहोस्',
+  'common.save': 'सुरक्षित गर्नुहोस्',
+  'common.send': 'पठाउनुहोस्',
+  'common.hide': 'लुकाउनुहोस्',
+  'common.dismiss': 'हटाउनुहोस्',
+  'language.nepali': 'नेपाली',
+  'language.english': 'अंग्रेजी',
+
+  'app.tagline': 'तपाईंको आफ्नै दाजु / दिदी',
+  'app.switchLanguage': 'English',
+  'app.switchLanguageTitle': 'View in English',
+  'app.switchLearner': 'विद्यार्थी बदल्नुहोस्',
+  'app.finishLesson': 'पाठ सक्नुहोस्',
+  'app.motto': '"सधैं दुई भाषामा - पहिले नेपालीमा, अनि अंग्रेजीमा। ठ्याक्कै दाजु वा दिदीले जस्तै!"',
+  'app.importantInfo': 'जरुरी जानकारी',
+  'app.paidKeyNote': 'Gemini Live API लाई सशुल्क GCP प्रोजेक्टको key चाहिन्छ।',
+  'app.currentlyLearning': 'अहिले पढ्दै',
+  'app.cameraOn': 'खुला',
+  'app.cameraOffTitle': 'क्यामेरा बन्द गर्नुहोस्',
+  'app.cameraOnTitle': 'आफ्नो कापी देखाउनुहोस्',
+  'app.reconnecting': 'फेरि जोड्दै छ… तपाईंको पाठ सुरक्षित छ!',
+  'app.conversationTitle': 'साथी AI र तपाईं',
+  'app.thinking': 'एकछिन पर्खनुहोस्, म सोच्दै छु... 😊',
+  'app.micOffHint': 'माइक बन्द छ। तल आफ्नो प्रश्न लेख्नुहोस्!',
+  'app.typePlaceholder': 'सन्देश लेख्नुहोस्...',
+  'app.micOff': 'माइक बन्द - बोल्न थिच्नुहोस्',
+  'app.micOn': 'माइक खुला - बोल्दै...',
+  'app.tip': '💡 सुझाव: "अब तपाईं भन्नुहोस्!" भनेपछि मपछि शब्द दोहोर्याउनुहोस्।',
+  'app.footer': 'नेपालका विद्यार्थीहरूका लागि ❤️ सहित बनाइएको',
+  'app.teachersLink': 'शिक्षक र अभिभावक 🔒',
+  'app.settingsLink': 'सेटिङ ⚙️',
+  'app.classroomLink': 'कक्षा 🏫',
+  'app.dashboardTitle': 'प्रगति विवरण',
+  'app.settingsTitle': 'अभिभावक सेटिङ',
+  'app.classroomTitle': 'कक्षाको पाठ',
+  'app.timeLeft': 'यो पाठमा बाँकी समय',
+  'app.recording': 'रेकर्ड',
+  'playback.replay': '🔁 फेरि सुन्नुहोस्',
+  'playback.replayTitle': 'साथी AI ले भर्खर भनेको फेरि बजाउनुहोस्',
+  'playback.slow': '🐢 बिस्तारै',
+  'playback.slowTitle': 'साथी AI लाई बिस्तारै बोल्न लगाउनुहोस्',
+  'playback.volume': 'आवाज',
+  'app.recordingTitle': 'यो पाठ रेकर्ड हुँदै छ',
+
+  'turns.modeNote': '🐢 ढिलो इन्टरनेट मोड: बोल्दा ठूलो बटन थिचिराख्नुहोस्, अनि छोड्नुहोस्।',
+  'turns.holdToTalk': 'थिचेर बोल्नुहोस्',
+  'turns.talking': 'बोल्दै… पठाउन छोड्नुहोस्',
+  'turns.failed': 'साथी AI सम्म पुगेन। फेरि प्रयास गर्नुहोस्।',
+
+  'error.connect': 'साथी AI सँग जोडिन सकिएन',
+
+  'profiles.newTitle': 'नयाँ विद्यार्थी',
+  'profiles.name': 'नाम',
+  'profiles.grade': 'कक्षा',
+  'profiles.language': 'भाषा',
+  'profiles.picture': 'चित्र',
+  'profiles.start': 'पढ्न सुरु गरौं!',
+  'profiles.whoTitle': 'को पढ्दै छ?',
+  'profiles.tapPicture': 'सुरु गर्न आफ्नो चित्र थिच्नुहोस्।',
+  'profiles.gradeN': 'कक्षा {grade}',
+  'profiles.newLearner': 'नयाँ विद्यार्थी',
+
+  'subjects.greeting': 'नमस्ते {name}! के पढ्ने त आज?',
+  'subjects.greetingNoName': 'नमस्ते! के पढ्ने त आज?',
+  'subjects.choose': 'पाठ सुरु गर्न एउटा विषय छान्नुहोस्!',
+  'subjects.all': '← सबै विषय',
+  'subjects.whichLesson': 'आज कुन पाठ?',
+
+  'word.practise': 'यो शब्द भन्नुहोस्:',
+  'word.try': 'प्रयास {attempt}: {verdict}',
+  'word.attempts': '{count} प्रयास',
+  'verdict.correct': 'सही',
+  'verdict.close': 'झन्डै',
+  'verdict.incorrect': 'मिलेन',
+  'verdict.correct.cheer': 'शाबास!',
+  'verdict.close.cheer': 'झन्डै!',
+  'verdict.incorrect.cheer': 'फेरि भन्नुहोस्!',
+
+  'source.voice': '🎤 बोलेको',
+  'source.typed': '⌨️ लेखेको',
+  'source.tap': '👆 छानेको',
+  'source.photo': '📷 फोटो',
+  'log.interrupted': 'बीचमै रोकियो',
+
+  'review.label': 'पाठको सारांश',
+  'review.timeRange': '{start} – {end} · अवधि {duration}',
+  'review.tutorTurns': 'शिक्षकको पालो',
+  'review.spokenTurns': 'बोलेको पालो',
+  'review.typedTurns': 'लेखेको / छानेको',
+  'review.pronunciation': 'उच्चारणको नतिजा:',
+  'review.word': 'शब्द',
+  'review.tries': 'प्रयास',
+  'review.result': 'नतिजा',
+  'review.transcript': 'के-के भनियो, क्रमैसँग:',
+  'review.empty': 'यो पाठमा केही भनिएन।',
+  'review.chooseAnother': 'अर्को विषय छान्नुहोस्',
+  'review.timeLimit': '⏰ आजको पाठको समय सकियो। धेरै राम्रो गर्नुभयो — अब आराम गरौं!',
+
+  'dashboard.label': 'शिक्षक / अभिभावक',
+  'dashboard.allCsv': 'सबै CSV मा',
+  'dashboard.allJson': 'सबै JSON मा',
+  'dashboard.loadError': 'यो उपकरणमा सुरक्षित पाठहरू खोल्न सकिएन।',
+  'dashboard.empty': 'अहिलेसम्म कुनै पाठ छैन। सकिएका पाठहरू यहाँ देखिनेछन्।',
+  'dashboard.lessons': 'पाठ',
+  'dashboard.timeSpent': 'बिताएको समय',
+  'dashboard.spokenQuestions': 'बोलेर सोधेका प्रश्न',
+  'dashboard.typedQuestions': 'लेखेर सोधेका प्रश्न',
+  'dashboard.perSubject': 'विषय अनुसार पाठ:',
+  'dashboard.subject': 'विषय',
+  'dashboard.time': 'समय',
+  'dashboard.safetyTitle': 'सुरक्षा सूचना:',
+  'dashboard.safetyNote': 'सूचनाको प्रकार मात्र राखिन्छ, के भनियो भन्ने होइन।',
+  'dashboard.safetyBlocked': 'शिक्षकको जवाफ रोकियो',
+  'dashboard.safetyFlagged': 'विद्यार्थीले भनेको',
+  'dashboard.words': 'अभ्यास गरेका शब्द:',
+  'dashboard.tries': '{count} प्रयास',
+  'dashboard.recordings': 'रेकर्डिङ:',
+  'dashboard.listen': '▶ सुन्नुहोस्',
+  'recording.hint': 'त्यो बेलाको आवाज सुन्न लाइनमा थिच्नुहोस्।',
+  'recording.download': 'WAV डाउनलोड',
+  'recording.delete': 'मेटाउनुहोस्',
+  'recording.deleteError': 'रेकर्डिङ मेटाउन सकिएन।',
+  'recording.tutor': 'साथी AI',
+
+  'passcode.pin': 'PIN',
+  'passcode.passcode': 'पासकोड',
+  'passcode.placeholder': 'पासकोड',
+  'passcode.choose': 'शिक्षक र अभिभावकका लागि {kind} छान्नुहोस्।',
+  'passcode.adultsOnly': 'शिक्षक र अभिभावकका लागि मात्र।',
+  'passcode.confirm': 'फेरि लेख्नुहोस्',
+  'passcode.tooShortDigits': 'कम्तीमा {min} अंक राख्नुहोस्।',
+  'passcode.tooShortChars': 'कम्तीमा {min} अक्षर राख्नुहोस्।',
+  'passcode.mismatch': 'दुवै पटक लेखेको मिलेन।',
+  'passcode.wrong': '{kind} मिलेन।',
+  'passcode.checkFailed': '{kind} जाँच्न सकिएन। कृपया एप https वा localhost बाट खोल्नुहोस्।',
+  'passcode.loadFailed': 'यो उपकरणमा सुरक्षित सेटिङ खोल्न सकिएन।',
+  'passcode.set': '{kind} राख्नुहोस्',
+  'passcode.unlock': 'खोल्नुहोस्',
+  'passcode.setupIntro': 'अभिभावक र शिक्षकका लागि: अहिलेसम्म {kind} राखिएको छैन। ठूला मान्छेले अहिले छान्नुपर्छ। विद्यार्थीहरू, कृपया ठूला मान्छेलाई बोलाउनुहोस्।',
+  'passcode.iAmAnAdult': 'म अभिभावक वा शिक्षक हुँ',
+  'passcode.locked': 'धेरै पटक मिलेन। {seconds} सेकेन्डपछि फेरि प्रयास गर्नुहोस्।',
+
+  'settings.label': 'अभिभावक सेटिङ',
+  'settings.title': 'सुरक्षा र पाठको समय',
+  'settings.longest': 'सबैभन्दा लामो पाठ',
+  'settings.longestHint': 'साथी AI ले एक मिनेट अघि पाठ टुङ्ग्याउन थाल्छ, अनि पाठ सकिन्छ।',
+  'settings.minutes': '{minutes} मिनेट',
+  'settings.blocked': 'रोक लगाइएका शब्द',
+  'settings.blockedHint': 'एक लाइनमा एउटा। शिक्षकले यस्तो शब्द भने जवाफ रोकिन्छ; विद्यार्थीले भने लुकाइन्छ र विवरणमा देखाइन्छ। फोन नम्बर, इमेल र ठेगाना सुरक्षित पाठ र रिपोर्टबाट सधैं हटाइन्छ।',
+  'settings.numerals': 'अंक',
+  'settings.numeralsHint': '1, 2, 3 को सट्टा नेपाली अंक (१, २, ३) देखाउनुहोस्।',
+  'settings.numeralsWestern': '1 2 3',
+  'settings.numeralsNepali': '१ २ ३',
+  'settings.voice': 'शिक्षकको आवाज',
+  'settings.voiceDidi': 'दिदी',
+  'settings.voiceDaju': 'दाजु',
+  'settings.record': 'रेकर्डिङ',
+  'settings.recordHint': 'शिक्षक र अभिभावकले विवरणमा सुन्न सकून् भनेर हरेक पाठको आवाज यही उपकरणमा राख्नुहोस्। परिवारको अनुमति लिएर मात्र खोल्नुहोस्।',
+  'settings.recordOff': 'बन्द',
+  'settings.recordOn': 'पाठ रेकर्ड गर्नुहोस्',
+  'settings.saveError': 'यो उपकरणमा सेटिङ सुरक्षित गर्न सकिएन।',
+
+  'camera.live': 'क्यामेरा खुला · साथी AI ले देख्दै छ',
+  'camera.preview': 'क्यामेरा खुला · पूर्वावलोकन',
+  'camera.photo': 'फोटो',
+  'camera.turnOff': 'बन्द गर्नुहोस् ✕',
+  'camera.starting': 'क्यामेरा खुल्दै छ…',
+  'camera.unavailable': 'क्यामेरा उपलब्ध छैन। तपाईं अझै फोटो छान्न सक्नुहुन्छ।',
+  'camera.badPhoto': 'त्यो फोटो खुलेन। अर्को प्रयास गर्नुहोस्।',
+  'camera.lastPhoto': 'पछिल्लो पठाएको फोटो',
+  'camera.send': '📸 फोटो पठाउनुहोस्',
+  'camera.stopLive': '⏹ देखाउन बन्द गर्नुहोस्',
+  'camera.startLive': '🎥 सिधै देखाउनुहोस्',
+  'camera.choose': '🖼️ फोटो छान्नुहोस्',
+  'camera.photoNote': 'यो मेरो किताबको फोटो हो। मलाई यसमा मद्दत गर्नुहुन्छ?',
+
+  'tool.myAnswer': 'मेरो उत्तर: {answer}',
+  'coins.rupee': 'रुपैयाँ',
+  'coins.rupees': 'रुपैयाँ',
+  'coins.total': 'जम्मा: रु',
+  'coins.sent': 'पठाइयो ✓',
+  'coins.counted': 'मैले {total} रुपैयाँ गनें।',
+  'shape.label': 'आकार',
+  'tracing.prompt': 'औँलाले धर्कामाथि लेख्नुहोस्!',
+  'tracing.clear': '🧽 मेटाउनुहोस्',
+  'tracing.again': '🔁 फेरि लेख्नुहोस्',
+  'tracing.done': '✓ सकियो',
+  'tracing.sent': 'पठाइयो ✓',
+  'tracing.traced': 'मैले {text} लेखेँ। कस्तो भयो?',
+  'rewards.total': '{count} तारा',
+  'rewards.starsTitle': 'साथी AI बाट पाएका तारा',
+  'rewards.newBadge': 'नयाँ ब्याज!',
+  'rewards.streak': '🔥 लगातार {count} दिन',
+  'rewards.startStreak': 'आज पढेर लगातार सिकाइ सुरु गर्नुहोस्!',
+  'rewards.badges': 'ब्याजहरू',
+  'badge.stars': '{subject} मा {count} तारा',
+  'badge.words': '{count} उच्चारण शब्द सिकियो',
+  'badge.streak': 'लगातार {count} दिन',
+
+  'diagnostics.title': 'जाँच विवरण',
+  'diagnostics.connection': 'जडान',
+  'diagnostics.latency': 'जवाफ आउन लागेको समय',
+  'diagnostics.underruns': 'आवाजमा खाली ठाउँ',
+  'diagnostics.audioSent': 'पठाइएको आवाज',
+  'diagnostics.audioReceived': 'आएको आवाज',
+  'diagnostics.toolCalls': 'टुल कलहरू',
+  'diagnostics.tokens': 'टोकन (पछिल्लो)',
+  'diagnostics.noEvents': 'अहिलेसम्म केही रेकर्ड भएको छैन।',
+  'diagnostics.export': 'लग डाउनलोड',
+  'diagnostics.clear': 'खाली गर्नुहोस्',
+  'classroom.setupTitle': 'कक्षाको पाठ',
+  'classroom.setupIntro': 'साथी AI ले प्रोजेक्टरमा पूरै कक्षालाई पढाउँछ। आज के पढाउने, छान्नुहोस्।',
+  'classroom.subject': 'विषय र पाठ',
+  'classroom.topic': 'आजको शीर्षक',
+  'classroom.topicPlaceholder': 'जस्तै: खेतमा बस्ने जनावरहरू',
+  'classroom.goal': 'पाठको लक्ष्य',
+  'classroom.goalPlaceholder': 'जस्तै: सबैले अङ्ग्रेजीमा पाँचवटा खेतका जनावरको नाम भन्न सक्छन्',
+  'classroom.start': 'कक्षाको पाठ सुरु गर्नुहोस्',
+  'classroom.starting': 'सुरु हुँदैछ…',
+  'classroom.className': 'कक्षा {grade}',
+  'classroom.paused': 'शिक्षकले रोक्नुभएको छ',
+  'classroom.tutor': 'साथी AI',
+  'classroom.class': 'कक्षा',
+  'classroom.teacher': 'शिक्षक',
+  'classroom.pause': 'रोक्नुहोस्',
+  'classroom.resume': 'जारी राख्नुहोस्',
+  'classroom.wordPlaceholder': 'कक्षाले भन्ने शब्द',
+  'classroom.showWord': 'शब्द देखाउनुहोस्',
+};
@@ -1,7 +1,9 @@
+import '@fontsource/noto-sans-devanagari/devanagari-400.css'
+import '@fontsource/noto-sans-devanagari/devanagari-700.css'
 import './index.css'
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
-import App from './App.tsx'
+import App from './app.tsx'
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
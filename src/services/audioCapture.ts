@@ -0,0 +1,97 @@
+import captureProcessorUrl from '../worklets/pcmCaptureProcessor.ts?worker&url';
+import type { PcmCaptureOptions } from '../worklets/pcmCaptureProcessor';
+import { createBlob } from './audioService';
+import { createVoiceActivityDetector } from './voiceActivity';
+
+export const CAPTURE_SAMPLE_RATE = 16000;
+const FRAME_MS = 20;
+// Frames are grouped before sending; one message per 20 ms frame is too chatty on 2G/3G links.
+const PACKET_MS = 100;
+
+export interface MicCaptureHandlers {
+  onAudio: (blob: { data: string; mimeType: string }) => void;
+  /** Gets the same speech as `onAudio`, as samples at `CAPTURE_SAMPLE_RATE`, for the lesson recording. */
+  onRecord?: (samples: Float32Array) => void;
+  /** Called once the student stops talking, so the server can close the audio turn. */
+  onSpeechEnd: () => void;
+  isMuted: () => boolean;
+}
+
+export interface MicCapture {
+  stop(): void;
+}
+
+function concatFrames(frames: Float32Array[]): Float32Array {
+  const total = frames.reduce((n, f) => n + f.length, 0);
+  const out = new Float32Array(total);
+  let offset = 0;
+  for (const f of frames) {
+    out.set(f, offset);
+    offset += f.length;
+  }
+  return out;
+}
+
+/**
+ * Captures the mic through an AudioWorklet at the device's native rate, resamples to 16 kHz
+ * and only forwards audio while the student is actually speaking.
+ */
+export async function startMicCapture(stream: MediaStream, handlers: MicCaptureHandlers): Promise<MicCapture> {
+  // No sampleRate hint: browsers are free to ignore it, and the worklet resamples anyway.
+  const ctx = new (window.AudioContext || window.webkitAudioContext)();
+  await ctx.audioWorklet.addModule(captureProcessorUrl);
+
+  const processorOptions: PcmCaptureOptions = {
+    targetSampleRate: CAPTURE_SAMPLE_RATE,
+    frameSize: (CAPTURE_SAMPLE_RATE * FRAME_MS) / 1000,
+  };
+  const source = ctx.createMediaStreamSource(stream);
+  const node = new AudioWorkletNode(ctx, 'pcm-capture', {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    processorOptions,
+  });
+
+  const vad = createVoiceActivityDetector({ frameMs: FRAME_MS });
+  const framesPerPacket = PACKET_MS / FRAME_MS;
+  let packet: Float32Array[] = [];
+
+  const flush = () => {
+    if (packet.length === 0) return;
+    const samples = concatFrames(packet);
+    handlers.onAudio(createBlob(samples, CAPTURE_SAMPLE_RATE));
+    handlers.onRecord?.(samples);
+    packet = [];
+  };
+
+  node.port.onmessage = (event: MessageEvent<Float32Array>) => {
+    if (handlers.isMuted()) {
+      if (vad.speaking) {
+        flush();
+        vad.reset();
+        handlers.onSpeechEnd();
+      }
+      return;
+    }
+
+    const result = vad.process(event.data);
+    packet.push(...result.frames);
+    if (packet.length >= framesPerPacket) flush();
+    if (result.speechEnded) {
+      flush();
+      handlers.onSpeechEnd();
+    }
+  };
+
+  source.connect(node);
+
+  return {
+    stop: () => {
+      node.port.onmessage = null;
+      source.disconnect();
+      node.disconnect();
+      ctx.close().catch(() => {});
+    },
+  };
+}
@@ -0,0 +1,125 @@
+import { decode, decodeAudioData } from './audioService';
+import { createTimeStretcher, type TimeStretcher } from './timeStretch';
+
+/** The "slow" setting: three quarters of normal speed is easier to follow, and still sounds natural. */
+export const SLOW_SPEECH_RATE = 0.75;
+
+export interface AudioPlayerOptions {
+  /** 0 to 1. */
+  volume?: number;
+  /** 1 is normal speed; lower rates slow the tutor down without changing the pitch of its voice. */
+  rate?: number;
+  /** The queue ran dry in the middle of a turn, so the child heard a gap of `gapMs`. */
+  onUnderrun?: (gapMs: number) => void;
+}
+
+export interface AudioPlayer {
+  /** Schedules a base64 PCM chunk right after whatever is already queued. */
+  enqueue(base64: string): Promise<void>;
+  /** Marks the end of the tutor's turn, which becomes the one `replayLastTurn` plays. */
+  endTurn(): void;
+  /** Plays the last finished turn again after anything already queued. False when there is none. */
+  replayLastTurn(): boolean;
+  readonly canReplay: boolean;
+  setVolume(volume: number): void;
+  setRate(rate: number): void;
+  /** The speed new chunks are scheduled at. */
+  readonly rate: number;
+  /** Stops everything that is playing or queued, e.g. when the student interrupts. */
+  interrupt(): void;
+  close(): void;
+}
+
+function concat(parts: Float32Array[]): Float32Array {
+  const out = new Float32Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+}
+
+export function createAudioPlayer(sampleRate = 24000, { volume = 1, rate = 1, onUnderrun }: AudioPlayerOptions = {}): AudioPlayer {
+  const ctx = new (window.AudioContext || window.webkitAudioContext)({ sampleRate });
+  const gain = ctx.createGain();
+  gain.gain.value = volume;
+  gain.connect(ctx.destination);
+  const sources = new Set<AudioBufferSourceNode>();
+  let nextStartTime = 0;
+  let currentRate = rate;
+  let stretcher: TimeStretcher | null = rate === 1 ? null : createTimeStretcher(rate, sampleRate);
+  // The tutor's own audio at normal speed; replays are stretched again at whatever rate is set then.
+  let turnChunks: Float32Array[] = [];
+  let lastTurn: Float32Array | null = null;
+
+  const schedule = (samples: Float32Array) => {
+    if (samples.length === 0) return;
+    nextStartTime = Math.max(nextStartTime, ctx.currentTime);
+    const buffer = ctx.createBuffer(1, samples.length, sampleRate);
+    buffer.getChannelData(0).set(samples);
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(gain);
+    source.start(nextStartTime);
+    nextStartTime += buffer.duration;
+    sources.add(source);
+    source.onended = () => sources.delete(source);
+  };
+
+  return {
+    enqueue: async (base64) => {
+      const buffer = await decodeAudioData(decode(base64), ctx, sampleRate, 1);
+      const samples = buffer.getChannelData(0);
+      // The first chunk of a turn always starts after a pause; later ones should join up.
+      if (turnChunks.length > 0 && nextStartTime > 0 && nextStartTime < ctx.currentTime) {
+        onUnderrun?.((ctx.currentTime - nextStartTime) * 1000);
+      }
+      turnChunks.push(samples);
+      schedule(stretcher ? stretcher.process(samples) : samples);
+    },
+    endTurn: () => {
+      if (stretcher) schedule(stretcher.flush());
+      if (turnChunks.length > 0) lastTurn = concat(turnChunks);
+      turnChunks = [];
+    },
+    replayLastTurn: () => {
+      if (!lastTurn) return false;
+      if (currentRate === 1) {
+        schedule(lastTurn);
+      } else {
+        const replay = createTimeStretcher(currentRate, sampleRate);
+        schedule(concat([replay.process(lastTurn), replay.flush()]));
+      }
+      return true;
+    },
+    get canReplay() {
+      return lastTurn !== null;
+    },
+    setVolume: (next) => {
+      gain.gain.setTargetAtTime(next, ctx.currentTime, 0.02);
+    },
+    get rate() {
+      return currentRate;
+    },
+    setRate: (next) => {
+      if (next === currentRate) return;
+      // Whatever the old stretcher still holds plays at its natural speed rather than being lost.
+      if (stretcher) schedule(stretcher.flush());
+      currentRate = next;
+      stretcher = next === 1 ? null : createTimeStretcher(next, sampleRate);
+    },
+    interrupt: () => {
+      sources.forEach(s => s.stop());
+      sources.clear();
+      nextStartTime = 0;
+      stretcher?.flush();
+      // An interrupted turn was not heard in full, and a blocked one must not be heard again.
+      turnChunks = [];
+    },
+    close: () => {
+      sources.clear();
+      ctx.close().catch(() => {});
+    },
+  };
+}
@@ -36,14 +36,40 @@ export async function decodeAudioData(
   return buffer;
 }
 
-export function createBlob(data: Float32Array): { data: string; mimeType: string } {
+export function createBlob(data: Float32Array, sampleRate = 16000): { data: string; mimeType: string } {
   const l = data.length;
   const int16 = new Int16Array(l);
   for (let i = 0; i < l; i++) {
-    int16[i] = data[i] * 32768;
+    // Clamp first: the resampler's filter can overshoot slightly past ±1.
+    const s = Math.max(-1, Math.min(1, data[i]));
+    int16[i] = s < 0 ? s * 32768 : s * 32767;
   }
   return {
     data: encode(new Uint8Array(int16.buffer)),
-    mimeType: 'audio/pcm;rate=16000',
+    mimeType: `audio/pcm;rate=${sampleRate}`,
   };
-}
\ No newline at end of file
+}
+
+/** Wraps 16-bit mono PCM in a WAV header. */
+export function createWavFile(pcm: Uint8Array, sampleRate: number): Uint8Array<ArrayBuffer> {
+  const file = new Uint8Array(44 + pcm.byteLength);
+  const header = new DataView(file.buffer);
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) header.setUint8(offset + i, text.charCodeAt(i));
+  };
+  writeString(0, 'RIFF');
+  header.setUint32(4, 36 + pcm.byteLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  header.setUint32(16, 16, true);
+  header.setUint16(20, 1, true); // PCM
+  header.setUint16(22, 1, true); // mono
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * 2, true);
+  header.setUint16(32, 2, true);
+  header.setUint16(34, 16, true);
+  writeString(36, 'data');
+  header.setUint32(40, pcm.byteLength, true);
+  file.set(pcm, 44);
+  return file;
+}
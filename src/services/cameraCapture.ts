@@ -0,0 +1,68 @@
+// Large enough to read a notebook page, small enough to send over a slow link.
+const MAX_IMAGE_SIDE = 1024;
+const JPEG_QUALITY = 0.8;
+// The Live API samples video at about one frame per second; sending more only costs bandwidth.
+export const LIVE_FRAME_INTERVAL_MS = 1000;
+
+export interface ImageBlob {
+  data: string;
+  mimeType: string;
+}
+
+export interface FrameStream {
+  stop(): void;
+}
+
+/** Prefers the back camera, which is the one pointed at a notebook on a phone or tablet. */
+export function openCamera(): Promise<MediaStream> {
+  return navigator.mediaDevices.getUserMedia({
+    video: { facingMode: { ideal: 'environment' }, width: { ideal: 1280 }, height: { ideal: 720 } },
+    audio: false,
+  });
+}
+
+function drawToJpeg(source: CanvasImageSource, width: number, height: number): ImageBlob | null {
+  if (!width || !height) return null;
+  const scale = Math.min(1, MAX_IMAGE_SIDE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  const dataUrl = canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+  return { data: dataUrl.slice(dataUrl.indexOf(',') + 1), mimeType: 'image/jpeg' };
+}
+
+/** Returns null until the video has its first frame. */
+export function captureFrame(video: HTMLVideoElement): ImageBlob | null {
+  return drawToJpeg(video, video.videoWidth, video.videoHeight);
+}
+
+/** Scales down a photo picked from the gallery or the device's own camera app. */
+export async function imageFileToBlob(file: File): Promise<ImageBlob | null> {
+  const bitmap = await createImageBitmap(file);
+  try {
+    return drawToJpeg(bitmap, bitmap.width, bitmap.height);
+  } finally {
+    bitmap.close();
+  }
+}
+
+/** For pictures the child makes on screen, such as a tracing. */
+export function captureCanvas(canvas: HTMLCanvasElement): ImageBlob | null {
+  return drawToJpeg(canvas, canvas.width, canvas.height);
+}
+
+export function imageBlobToDataUrl(image: ImageBlob): string {
+  return `data:${image.mimeType};base64,${image.data}`;
+}
+
+/** Sends a frame from `video` at a low rate until stopped. */
+export function startFrameStream(video: HTMLVideoElement, onFrame: (frame: ImageBlob) => void): FrameStream {
+  const timer = setInterval(() => {
+    const frame = captureFrame(video);
+    if (frame) onFrame(frame);
+  }, LIVE_FRAME_INTERVAL_MS);
+  return { stop: () => clearInterval(timer) };
+}
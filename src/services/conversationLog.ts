@@ -0,0 +1,69 @@
+import type { Message, MessageSource } from '../types';
+
+let messageCounter = 0;
+
+function createMessage(role: Message['role'], text: string, source: MessageSource, timestamp: number): Message {
+  messageCounter += 1;
+  return {
+    id: `${timestamp}-${messageCounter}`,
+    role,
+    text,
+    source,
+    timestamp,
+    isComplete: source !== 'voice',
+  };
+}
+
+function findOpenTurn(log: Message[], role: Message['role']): number {
+  for (let i = log.length - 1; i >= 0; i--) {
+    const msg = log[i];
+    if (msg.role === role && msg.source === 'voice' && !msg.isComplete) return i;
+  }
+  return -1;
+}
+
+/**
+ * Appends a transcription chunk to the open spoken turn for `role`, or starts a new turn.
+ * Input and output transcriptions arrive independently, so a late user chunk still lands
+ * in the user turn that was already open rather than after the tutor's reply.
+ */
+export function appendTranscription(log: Message[], role: Message['role'], text: string, timestamp = Date.now()): Message[] {
+  if (!text) return log;
+  const index = findOpenTurn(log, role);
+  if (index === -1) {
+    if (!text.trim()) return log;
+    return [...log, createMessage(role, text.trimStart(), 'voice', timestamp)];
+  }
+  const next = [...log];
+  next[index] = { ...log[index], text: log[index].text + text };
+  return next;
+}
+
+export function addTypedMessage(log: Message[], text: string, timestamp = Date.now()): Message[] {
+  return addStudentMessage(log, text, 'typed', timestamp);
+}
+
+/** A finished student message that did not come from the mic: a tapped answer or a photo note. */
+export function addStudentMessage(
+  log: Message[],
+  text: string,
+  source: Exclude<MessageSource, 'voice'>,
+  timestamp = Date.now(),
+): Message[] {
+  return [...log, createMessage('user', text, source, timestamp)];
+}
+
+/** Closes every open turn. Called when the server signals `turnComplete`. */
+export function completeTurn(log: Message[]): Message[] {
+  if (!log.some(msg => !msg.isComplete)) return log;
+  return log.map(msg => (msg.isComplete ? msg : { ...msg, isComplete: true }));
+}
+
+/** The student spoke over the tutor: close the tutor's turn and mark it as cut short. */
+export function interruptModelTurn(log: Message[]): Message[] {
+  const index = findOpenTurn(log, 'model');
+  if (index === -1) return log;
+  const next = [...log];
+  next[index] = { ...log[index], isComplete: true, interrupted: true };
+  return next;
+}
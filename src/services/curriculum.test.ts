@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import type { CurriculumPack } from '../types';
+import { readCurriculumFiles } from '../../server/curriculumFiles';
+import { isPronunciationPack, unitsForGrade, validateCurriculumPack, validateCurriculumPacks } from './curriculum';
+
+const pack = (changes: Record<string, unknown> = {}) => ({
+  id: 'maths',
+  subject: 'Maths',
+  icon: '🔢',
+  color: 'bg-green-400',
+  description: 'Numbers',
+  guidance: 'Count things.',
+  units: [
+    { id: 'counting', title: 'Counting', grades: [1, 2], goals: ['Count to 20'], vocabulary: [], exampleQuestions: [] },
+    { id: 'shapes', title: 'Shapes', goals: ['Name shapes'], vocabulary: [{ word: 'circle', language: 'English' as const }], exampleQuestions: [] },
+  ],
+  ...changes,
+}) as CurriculumPack;
+
+describe('validateCurriculumPack', () => {
+  it('accepts a complete pack', () => {
+    expect(validateCurriculumPack(pack())).toEqual({ pack: pack(), errors: [] });
+  });
+
+  it('reports each problem for the teacher editing the file', () => {
+    const { pack: result, errors } = validateCurriculumPack(pack({ id: 'Maths!', color: 'green', units: [] }));
+    expect(result).toBeNull();
+    expect(errors).toEqual([
+      'id must be lower-case-with-dashes, e.g. "maths"',
+      'color must be a Tailwind class like "bg-green-400"',
+      'units must be a non-empty array',
+    ]);
+  });
+
+  it('checks units, grades and vocabulary', () => {
+    const { errors } = validateCurriculumPack(pack({
+      units: [
+        { id: 'a', title: 'A', grades: [7], goals: [], vocabulary: [{ word: 'x', language: 'French' }], exampleQuestions: [] },
+        { id: 'a', title: 'B', goals: ['g'], vocabulary: [], exampleQuestions: [] },
+      ],
+    }));
+    expect(errors).toEqual([
+      'units[0].grades must be a non-empty list of grades from 1 to 5',
+      'units[0].goals must be a non-empty array of strings',
+      'units[0].vocabulary[0].language must be one of English, Nepali',
+      'units[1].id "a" is used twice',
+    ]);
+  });
+
+  it('only knows the pronunciation kind', () => {
+    expect(validateCurriculumPack(pack({ kind: 'pronunciation' })).errors).toEqual([]);
+    expect(validateCurriculumPack(pack({ kind: 'quiz' })).errors).toEqual(['kind must be left out, or one of "pronunciation"']);
+  });
+});
+
+describe('validateCurriculumPacks', () => {
+  it('skips a file whose id is already taken', () => {
+    const { packs, errors } = validateCurriculumPacks({ 'a.json': pack(), 'b.json': pack({ subject: 'Other' }) });
+    expect(packs).toHaveLength(1);
+    expect(errors).toEqual({ 'b.json': ['id "maths" is already used by a.json'] });
+  });
+
+  it('accepts every bundled pack, with one Pronunciation Challenge drill', async () => {
+    const { files, parseErrors } = await readCurriculumFiles();
+    const { packs, errors } = validateCurriculumPacks(files);
+    expect(parseErrors).toEqual({});
+    expect(errors).toEqual({});
+    expect(packs.filter(isPronunciationPack).map(p => p.id)).toEqual(['pronunciation']);
+  });
+});
+
+describe('isPronunciationPack', () => {
+  it('goes by kind, not by the subject text', () => {
+    expect(isPronunciationPack({ ...pack(), kind: 'pronunciation', subject: 'उच्चारण' })).toBe(true);
+    expect(isPronunciationPack({ ...pack(), subject: 'Pronunciation Challenge (उच्चारण अभ्यास)' })).toBe(false);
+  });
+});
+
+describe('unitsForGrade', () => {
+  it('offers units without grades to everyone', () => {
+    expect(unitsForGrade(pack(), 1).map(u => u.id)).toEqual(['counting', 'shapes']);
+    expect(unitsForGrade(pack(), 4).map(u => u.id)).toEqual(['shapes']);
+  });
+});
@@ -0,0 +1,132 @@
+import type { CurriculumPack, CurriculumUnit, VocabularyItem } from '../types';
+import { GRADES } from './gradeLevels';
+
+const ID_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+const COLOR_PATTERN = /^bg-[a-z]+-\d{2,3}$/;
+const LANGUAGES: VocabularyItem['language'][] = ['English', 'Nepali'];
+const PACK_KINDS: NonNullable<CurriculumPack['kind']>[] = ['pronunciation'];
+
+export interface PackValidationResult {
+  pack: CurriculumPack | null;
+  errors: string[];
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+function checkStringList(value: unknown, path: string, errors: string[], allowEmpty = false) {
+  if (!Array.isArray(value) || (!allowEmpty && value.length === 0)) {
+    errors.push(`${path} must be a${allowEmpty ? 'n' : ' non-empty'} array of strings`);
+    return;
+  }
+  value.forEach((item, i) => {
+    if (!isNonEmptyString(item)) errors.push(`${path}[${i}] must be a non-empty string`);
+  });
+}
+
+function checkUnit(unit: unknown, path: string, errors: string[]) {
+  if (!isObject(unit)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  if (!isNonEmptyString(unit.id) || !ID_PATTERN.test(unit.id)) errors.push(`${path}.id must be lower-case-with-dashes`);
+  if (!isNonEmptyString(unit.title)) errors.push(`${path}.title is required`);
+  if (unit.grades !== undefined && (!Array.isArray(unit.grades) || unit.grades.length === 0 || !unit.grades.every(g => typeof g === 'number' && GRADES.includes(g)))) {
+    errors.push(`${path}.grades must be a non-empty list of grades from ${GRADES[0]} to ${GRADES[GRADES.length - 1]}`);
+  }
+  checkStringList(unit.goals, `${path}.goals`, errors);
+  checkStringList(unit.exampleQuestions, `${path}.exampleQuestions`, errors, true);
+
+  if (!Array.isArray(unit.vocabulary)) {
+    errors.push(`${path}.vocabulary must be an array`);
+    return;
+  }
+  unit.vocabulary.forEach((item, i) => {
+    const itemPath = `${path}.vocabulary[${i}]`;
+    if (!isObject(item)) {
+      errors.push(`${itemPath} must be an object`);
+      return;
+    }
+    if (!isNonEmptyString(item.word)) errors.push(`${itemPath}.word is required`);
+    if (!LANGUAGES.includes(item.language as VocabularyItem['language'])) {
+      errors.push(`${itemPath}.language must be one of ${LANGUAGES.join(', ')}`);
+    }
+    if (item.meaning !== undefined && !isNonEmptyString(item.meaning)) errors.push(`${itemPath}.meaning must be a string`);
+  });
+}
+
+/** Checks a parsed pack file. Errors are written for teachers editing JSON by hand. */
+export function validateCurriculumPack(raw: unknown): PackValidationResult {
+  const errors: string[] = [];
+  if (!isObject(raw)) return { pack: null, errors: ['The file must contain a JSON object'] };
+
+  if (!isNonEmptyString(raw.id) || !ID_PATTERN.test(raw.id)) errors.push('id must be lower-case-with-dashes, e.g. "maths"');
+  if (raw.kind !== undefined && !PACK_KINDS.includes(raw.kind as NonNullable<CurriculumPack['kind']>)) {
+    errors.push(`kind must be left out, or one of ${PACK_KINDS.map(k => `"${k}"`).join(', ')}`);
+  }
+  if (raw.order !== undefined && typeof raw.order !== 'number') errors.push('order must be a number');
+  for (const field of ['subject', 'icon', 'description', 'guidance'] as const) {
+    if (!isNonEmptyString(raw[field])) errors.push(`${field} is required`);
+  }
+  if (raw.descriptionNe !== undefined && !isNonEmptyString(raw.descriptionNe)) errors.push('descriptionNe must be a string');
+  if (raw.gradeGuidance !== undefined) {
+    if (!isObject(raw.gradeGuidance)) {
+      errors.push('gradeGuidance must be an object keyed by grade, e.g. { "1": "..." }');
+    } else {
+      for (const [grade, text] of Object.entries(raw.gradeGuidance)) {
+        if (!GRADES.includes(Number(grade))) errors.push(`gradeGuidance has an unknown grade "${grade}"`);
+        if (!isNonEmptyString(text)) errors.push(`gradeGuidance["${grade}"] must be a string`);
+      }
+    }
+  }
+  if (!isNonEmptyString(raw.color) || !COLOR_PATTERN.test(raw.color)) errors.push('color must be a Tailwind class like "bg-green-400"');
+
+  if (!Array.isArray(raw.units) || raw.units.length === 0) {
+    errors.push('units must be a non-empty array');
+  } else {
+    raw.units.forEach((unit, i) => checkUnit(unit, `units[${i}]`, errors));
+    const ids = raw.units.map(u => (isObject(u) ? u.id : undefined));
+    ids.forEach((id, i) => {
+      if (id !== undefined && ids.indexOf(id) !== i) errors.push(`units[${i}].id "${String(id)}" is used twice`);
+    });
+  }
+
+  return errors.length > 0 ? { pack: null, errors } : { pack: raw as unknown as CurriculumPack, errors };
+}
+
+/** Validates a set of pack files together, also catching ids that clash across files. */
+export function validateCurriculumPacks(files: Record<string, unknown>): { packs: CurriculumPack[]; errors: Record<string, string[]> } {
+  const packs: CurriculumPack[] = [];
+  const errors: Record<string, string[]> = {};
+  const seen = new Map<string, string>();
+
+  for (const [file, raw] of Object.entries(files)) {
+    const result = validateCurriculumPack(raw);
+    if (!result.pack) {
+      errors[file] = result.errors;
+      continue;
+    }
+    const clash = seen.get(result.pack.id);
+    if (clash) {
+      errors[file] = [`id "${result.pack.id}" is already used by ${clash}`];
+      continue;
+    }
+    seen.set(result.pack.id, file);
+    packs.push(result.pack);
+  }
+
+  packs.sort((a, b) => (a.order ?? Infinity) - (b.order ?? Infinity) || a.subject.localeCompare(b.subject));
+  return { packs, errors };
+}
+
+/** The Pronunciation Challenge drill, whatever its subject is called in the pack. */
+export function isPronunciationPack(pack: CurriculumPack): boolean {
+  return pack.kind === 'pronunciation';
+}
+
+/** The units of `pack` taught in `grade`. A pack with none is not offered to that grade. */
+export function unitsForGrade(pack: CurriculumPack, grade: number): CurriculumUnit[] {
+  return pack.units.filter(unit => !unit.grades || unit.grades.includes(grade));
+}
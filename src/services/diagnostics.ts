@@ -0,0 +1,147 @@
+import type { SessionUsage } from './liveSession';
+import { redactPersonalInfo } from './safety';
+
+// Enough for a whole lesson's connection history without the exported log getting huge.
+const MAX_EVENTS = 500;
+const MAX_LATENCIES = 50;
+const MAX_DETAIL_LENGTH = 300;
+
+export type ConnectionState = 'idle' | 'connecting' | 'live' | 'reconnecting' | 'turns' | 'closed';
+
+export type DiagnosticKind = 'connection' | 'latency' | 'underrun' | 'tool' | 'usage' | 'error';
+
+export interface DiagnosticEvent {
+  at: number;
+  kind: DiagnosticKind;
+  detail: string;
+}
+
+export interface DiagnosticsSnapshot {
+  connection: ConnectionState;
+  /** Newest last. */
+  events: DiagnosticEvent[];
+  audioBytesSent: number;
+  audioBytesReceived: number;
+  /** From the end of the student's speech to the first audio (or reply) from the tutor, newest last. */
+  latenciesMs: number[];
+  underruns: number;
+  /** Total silence heard in the middle of tutor turns. */
+  underrunMs: number;
+  toolCalls: number;
+  lastUsage: SessionUsage | null;
+}
+
+/** Collects what is needed to tell why a lesson "is not answering", for the hidden diagnostics panel. */
+export interface Diagnostics {
+  connection(state: ConnectionState, detail?: string): void;
+  /** The student stopped talking; the clock for the next reply starts now. */
+  speechEnded(): void;
+  /** The first audio or text of a tutor reply arrived. Only the first after `speechEnded` counts. */
+  replyStarted(): void;
+  audioSent(bytes: number): void;
+  audioReceived(bytes: number): void;
+  underrun(gapMs: number): void;
+  toolCall(name: string, args: unknown, response: unknown): void;
+  usage(usage: SessionUsage): void;
+  error(message: string): void;
+  getSnapshot(): DiagnosticsSnapshot;
+  subscribe(listener: () => void): () => void;
+  /** The whole log as JSON, for a teacher to send to whoever supports the deployment. */
+  exportLog(): string;
+  clear(): void;
+}
+
+/** Base64 carries three bytes in every four characters. */
+export function base64Bytes(base64: string): number {
+  return Math.floor((base64.length * 3) / 4) - (base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0);
+}
+
+function emptySnapshot(connection: ConnectionState = 'idle'): DiagnosticsSnapshot {
+  return {
+    connection,
+    events: [],
+    audioBytesSent: 0,
+    audioBytesReceived: 0,
+    latenciesMs: [],
+    underruns: 0,
+    underrunMs: 0,
+    toolCalls: 0,
+    lastUsage: null,
+  };
+}
+
+function describe(value: unknown): string {
+  const text = typeof value === 'string' ? value : JSON.stringify(value) ?? '';
+  return redactPersonalInfo(text).slice(0, MAX_DETAIL_LENGTH);
+}
+
+export function createDiagnostics(): Diagnostics {
+  // Replaced on every change, so `useSyncExternalStore` sees a new value only when there is one.
+  let snapshot = emptySnapshot();
+  let speechEndedAt: number | null = null;
+  const listeners = new Set<() => void>();
+
+  const update = (changes: Partial<DiagnosticsSnapshot>, event?: Omit<DiagnosticEvent, 'at'>) => {
+    const next = { ...snapshot, ...changes };
+    if (event) next.events = [...next.events, { at: Date.now(), ...event }].slice(-MAX_EVENTS);
+    snapshot = next;
+    listeners.forEach(listener => listener());
+  };
+
+  return {
+    connection: (state, detail) => {
+      if (state !== 'live' && state !== 'turns') speechEndedAt = null;
+      update({ connection: state }, { kind: 'connection', detail: detail ? `${state}: ${describe(detail)}` : state });
+    },
+    speechEnded: () => {
+      speechEndedAt = Date.now();
+    },
+    replyStarted: () => {
+      if (speechEndedAt === null) return;
+      const latency = Date.now() - speechEndedAt;
+      speechEndedAt = null;
+      update(
+        { latenciesMs: [...snapshot.latenciesMs, latency].slice(-MAX_LATENCIES) },
+        { kind: 'latency', detail: `${latency} ms from end of speech to reply` },
+      );
+    },
+    audioSent: (bytes) => update({ audioBytesSent: snapshot.audioBytesSent + bytes }),
+    audioReceived: (bytes) => update({ audioBytesReceived: snapshot.audioBytesReceived + bytes }),
+    underrun: (gapMs) => {
+      update(
+        { underruns: snapshot.underruns + 1, underrunMs: snapshot.underrunMs + gapMs },
+        { kind: 'underrun', detail: `${Math.round(gapMs)} ms gap in tutor audio` },
+      );
+    },
+    toolCall: (name, args, response) => {
+      update({ toolCalls: snapshot.toolCalls + 1 }, { kind: 'tool', detail: `${name}(${describe(args)}) → ${describe(response)}` });
+    },
+    usage: (usage) => {
+      update({ lastUsage: usage }, { kind: 'usage', detail: describe(usage) });
+    },
+    error: (message) => {
+      update({}, { kind: 'error', detail: describe(message) });
+    },
+    getSnapshot: () => snapshot,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    exportLog: () =>
+      JSON.stringify(
+        {
+          exportedAt: new Date().toISOString(),
+          userAgent: navigator.userAgent,
+          connectionType: (navigator as Navigator & { connection?: { effectiveType?: string } }).connection?.effectiveType,
+          ...snapshot,
+          events: snapshot.events.map(e => ({ ...e, at: new Date(e.at).toISOString() })),
+        },
+        null,
+        2,
+      ),
+    clear: () => {
+      speechEndedAt = null;
+      update(emptySnapshot(snapshot.connection));
+    },
+  };
+}
@@ -0,0 +1,59 @@
+/** How the tutor pitches a lesson for one grade. */
+export interface GradeLevel {
+  grade: number;
+  ageRange: string;
+  /** The longest the tutor talks before handing the turn back with a question. */
+  speakingLimitSeconds: number;
+  pacing: string;
+  /** What makes a good word for the Pronunciation Challenge at this grade. */
+  vocabulary: string;
+}
+
+export const GRADE_LEVELS: GradeLevel[] = [
+  {
+    grade: 1,
+    ageRange: '6-7',
+    speakingLimitSeconds: 15,
+    pacing: 'Teach one small idea at a time and repeat it often. Ask yes/no or one-word questions, count on fingers, and praise every try.',
+    vocabulary: 'Short everyday words of one or two syllables that a young child hears at home: cat, ball, घर, आमा.',
+  },
+  {
+    grade: 2,
+    ageRange: '7-8',
+    speakingLimitSeconds: 20,
+    pacing: 'Use short sentences and familiar examples from home and school. Ask one simple question at a time and give a hint before the answer.',
+    vocabulary: 'Common two-syllable words about family, food and school, with the odd longer word as a treat: apple, water, किताब, पानी.',
+  },
+  {
+    grade: 3,
+    ageRange: '8-9',
+    speakingLimitSeconds: 30,
+    pacing: 'Explain a concept in a few short steps, then check understanding with a simple question before moving on.',
+    vocabulary: 'Interesting words from Grade 3 textbooks, including some with tricky sounds: butterfly, vegetable, विद्यालय, शिक्षक.',
+  },
+  {
+    grade: 4,
+    ageRange: '9-10',
+    speakingLimitSeconds: 40,
+    pacing: 'Link new ideas to what the student already knows. Ask "why" and "how" questions and let them explain in their own words.',
+    vocabulary: 'Longer words of three or more syllables from science and social studies: environment, temperature, जनसङ्ख्या, वातावरण.',
+  },
+  {
+    grade: 5,
+    ageRange: '10-11',
+    speakingLimitSeconds: 45,
+    pacing: 'Give short explanations followed by problems the student works through step by step. Encourage them to check their own answers.',
+    vocabulary: 'Subject words and formal Nepali from Grade 5 textbooks, including conjunct letters: transportation, electricity, प्रजातन्त्र, स्वास्थ्य.',
+  },
+];
+
+export const GRADES = GRADE_LEVELS.map(level => level.grade);
+
+/** Used when no student profile says otherwise. */
+export const DEFAULT_GRADE = 3;
+
+/** The level for `grade`, clamped to the grades the app supports. */
+export function gradeLevelFor(grade: number): GradeLevel {
+  return GRADE_LEVELS.find(level => level.grade === grade)
+    ?? (grade < GRADES[0] ? GRADE_LEVELS[0] : GRADE_LEVELS[GRADE_LEVELS.length - 1]);
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import type { CompletedLesson, Message, StudentProfile } from '../types';
+import { VOICE_CLIP_TEXT } from '../constants';
+import { buildLessonRecord } from './lessonRecords';
+
+const profile: StudentProfile = {
+  id: 'p1',
+  name: 'Asha',
+  grade: 2,
+  preferredLanguage: 'Nepali',
+  avatar: '🦁',
+  createdAt: 0,
+  history: [],
+};
+
+let nextId = 0;
+const message = (role: Message['role'], text: string, source: Message['source'] = 'voice'): Message => ({
+  id: String(nextId++),
+  role,
+  text,
+  source,
+  timestamp: 1000 + nextId,
+  isComplete: true,
+});
+
+const lesson = (messages: Message[]): CompletedLesson => ({
+  subject: 'Maths',
+  unitTitle: 'Shapes',
+  startedAt: 1000,
+  endedAt: 61000,
+  messages,
+  pronunciation: {},
+  wordsShown: [],
+  safetyEvents: [],
+});
+
+describe('buildLessonRecord', () => {
+  it('keeps the student\'s own spoken and typed questions', () => {
+    const record = buildLessonRecord(profile, lesson([
+      message('model', 'Namaste!'),
+      message('user', 'How many sides has a triangle?'),
+      message('user', 'what is a circle', 'typed'),
+    ]));
+    expect(record.questions.map(q => [q.text, q.source])).toEqual([
+      ['How many sides has a triangle?', 'voice'],
+      ['what is a circle', 'typed'],
+    ]);
+    expect(record.durationMs).toBe(60000);
+  });
+
+  it('leaves out tapped answers and turn-by-turn voice clip placeholders', () => {
+    const record = buildLessonRecord(profile, lesson([
+      message('user', 'My answer: 3', 'tap'),
+      message('user', VOICE_CLIP_TEXT),
+      message('user', `  ${VOICE_CLIP_TEXT} `),
+    ]));
+    expect(record.questions).toEqual([]);
+  });
+
+  it('redacts personal details from saved questions but keeps lesson words', () => {
+    const record = buildLessonRecord(profile, lesson([
+      message('user', 'call me on 9841234567'),
+      message('user', 'Why do we look both ways before we cross the road?'),
+    ]));
+    expect(record.questions.map(q => q.text)).toEqual([
+      'call me on [phone]',
+      'Why do we look both ways before we cross the road?',
+    ]);
+  });
+});
@@ -0,0 +1,118 @@
+import type { CompletedLesson, LessonRecord, SafetyEvent, StudentProfile, WordPracticeRecord } from '../types';
+import { VOICE_CLIP_TEXT } from '../constants';
+import { attemptsFor, finalVerdict } from './pronunciationResults';
+import { redactPersonalInfo } from './safety';
+import { getAllRecords, putRecord } from './storage';
+
+export interface SubjectProgress {
+  subject: string;
+  lessons: number;
+  durationMs: number;
+}
+
+export interface StudentProgress {
+  profileId: string;
+  studentName: string;
+  grade: number;
+  lessons: number;
+  durationMs: number;
+  lastLessonAt: number;
+  bySubject: SubjectProgress[];
+  words: WordPracticeRecord[];
+  spokenQuestions: number;
+  typedQuestions: number;
+  safetyEvents: SafetyEvent[];
+}
+
+export function buildLessonRecord(profile: StudentProfile, lesson: CompletedLesson): LessonRecord {
+  const wordsPracticed: WordPracticeRecord[] = lesson.wordsShown.map((word) => {
+    const attempts = attemptsFor(lesson.pronunciation, word);
+    return {
+      word,
+      language: attempts[0]?.language ?? 'Unknown',
+      attempts: attempts.length,
+      finalVerdict: finalVerdict(attempts),
+    };
+  });
+
+  return {
+    id: `${profile.id}-${lesson.startedAt}`,
+    profileId: profile.id,
+    studentName: profile.name,
+    grade: profile.grade,
+    subject: lesson.subject,
+    unitTitle: lesson.unitTitle,
+    startedAt: lesson.startedAt,
+    endedAt: lesson.endedAt,
+    durationMs: lesson.endedAt - lesson.startedAt,
+    wordsPracticed,
+    questions: lesson.messages
+      // Tapped answers are replies to the tutor's cards, not the student's own questions, and a
+      // turn-by-turn voice clip has no words to show.
+      .filter(m => m.role === 'user' && m.source !== 'tap' && m.text.trim() && m.text.trim() !== VOICE_CLIP_TEXT)
+      .map(m => ({ text: redactPersonalInfo(m.text.trim()), source: m.source, timestamp: m.timestamp })),
+    safetyEvents: lesson.safetyEvents,
+  };
+}
+
+export async function saveLessonRecord(record: LessonRecord): Promise<void> {
+  await putRecord('lessons', record);
+}
+
+export async function loadLessonRecords(): Promise<LessonRecord[]> {
+  const records = await getAllRecords<LessonRecord>('lessons');
+  return records.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+/** Rolls lesson records up per student; the latest attempt at a word wins. */
+export function summarizeProgress(records: LessonRecord[]): StudentProgress[] {
+  const byStudent = new Map<string, StudentProgress>();
+  const chronological = [...records].sort((a, b) => a.startedAt - b.startedAt);
+
+  for (const record of chronological) {
+    const progress = byStudent.get(record.profileId) ?? {
+      profileId: record.profileId,
+      studentName: record.studentName,
+      grade: record.grade,
+      lessons: 0,
+      durationMs: 0,
+      lastLessonAt: 0,
+      bySubject: [],
+      words: [],
+      spokenQuestions: 0,
+      typedQuestions: 0,
+      safetyEvents: [],
+    };
+    progress.studentName = record.studentName;
+    progress.grade = record.grade;
+    progress.lessons += 1;
+    progress.durationMs += record.durationMs;
+    progress.lastLessonAt = record.startedAt;
+
+    const subject = progress.bySubject.find(s => s.subject === record.subject);
+    if (subject) {
+      subject.lessons += 1;
+      subject.durationMs += record.durationMs;
+    } else {
+      progress.bySubject.push({ subject: record.subject, lessons: 1, durationMs: record.durationMs });
+    }
+
+    for (const word of record.wordsPracticed) {
+      const existing = progress.words.find(w => w.word === word.word);
+      if (existing) {
+        existing.attempts += word.attempts;
+        existing.finalVerdict = word.finalVerdict ?? existing.finalVerdict;
+      } else {
+        progress.words.push({ ...word });
+      }
+    }
+
+    progress.spokenQuestions += record.questions.filter(q => q.source === 'voice').length;
+    progress.typedQuestions += record.questions.filter(q => q.source === 'typed').length;
+    // Records saved before the safety layer have no events.
+    progress.safetyEvents.push(...(record.safetyEvents ?? []));
+    byStudent.set(record.profileId, progress);
+  }
+
+  return [...byStudent.values()].sort((a, b) => b.lastLessonAt - a.lastLessonAt);
+}
@@ -0,0 +1,231 @@
+import { Modality, type FunctionCall, type FunctionDeclaration, type LiveServerMessage } from '@google/genai';
+import type { Message } from '../types';
+import { LIVE_MODEL, RESUME_INSTRUCTIONS } from '../constants';
+import type { LiveTransport, LiveTransportSession } from './liveTransport';
+
+// Delays between reconnect attempts; the last one repeats until MAX_RECONNECT_ATTEMPTS.
+const RECONNECT_DELAYS_MS = [500, 1000, 2000, 4000, 8000];
+const MAX_RECONNECT_ATTEMPTS = 8;
+
+/** Token counts the server reports for a session. */
+export interface SessionUsage {
+  promptTokens?: number;
+  responseTokens?: number;
+  totalTokens?: number;
+}
+
+export interface LiveSessionHandlers {
+  onOpen: () => void;
+  onAudio: (base64: string) => void;
+  onTranscription: (role: 'user' | 'model', text: string) => void;
+  onInterrupted: () => void;
+  onTurnComplete: () => void;
+  /** Returns the payload sent back to the model as the function response. */
+  onToolCall: (call: FunctionCall) => Record<string, unknown>;
+  /** The connection dropped and a new one is being attempted; the lesson is still on. */
+  onReconnecting: (attempt: number) => void;
+  onReconnected: () => void;
+  onUsage?: (usage: SessionUsage) => void;
+  /** Fatal: the session is over after this. */
+  onError: (message: string) => void;
+  onClose: () => void;
+}
+
+export interface LiveSessionOptions {
+  systemInstruction: string;
+  tools: FunctionDeclaration[];
+  /** A prebuilt Live API voice, e.g. 'Kore'. */
+  voiceName: string;
+  /** The conversation so far, replayed into the instruction when the server cannot resume. */
+  getHistory: () => Message[];
+}
+
+export interface LiveSession {
+  sendText(text: string): void;
+  sendAudio(blob: { data: string; mimeType: string }): void;
+  /** A camera frame or photo; the model sees it as video input. */
+  sendImage(blob: { data: string; mimeType: string }): void;
+  /** Tells the server the student stopped talking, since silence is no longer streamed. */
+  endAudioStream(): void;
+  close(): void;
+}
+
+/** Key and project problems will not go away by retrying. */
+export function isFatalSessionError(message: string): boolean {
+  return message.includes('Operation is not implemented') || message.includes('Requested entity was not found');
+}
+
+function handleServerMessage(message: LiveServerMessage, session: LiveTransportSession, handlers: LiveSessionHandlers) {
+  if (message.toolCall) {
+    const functionResponses = (message.toolCall.functionCalls || []).map(fc => ({
+      id: fc.id,
+      name: fc.name,
+      response: handlers.onToolCall(fc),
+    }));
+    if (functionResponses.length > 0) {
+      session.sendToolResponse({ functionResponses });
+    }
+  }
+
+  if (message.usageMetadata) {
+    const { promptTokenCount, responseTokenCount, totalTokenCount } = message.usageMetadata;
+    handlers.onUsage?.({ promptTokens: promptTokenCount, responseTokens: responseTokenCount, totalTokens: totalTokenCount });
+  }
+
+  const content = message.serverContent;
+  if (!content) return;
+
+  const audioData = content.modelTurn?.parts?.[0]?.inlineData?.data;
+  if (audioData) handlers.onAudio(audioData);
+
+  if (content.inputTranscription?.text) handlers.onTranscription('user', content.inputTranscription.text);
+  if (content.outputTranscription?.text) handlers.onTranscription('model', content.outputTranscription.text);
+
+  if (content.interrupted) handlers.onInterrupted();
+  if (content.turnComplete) handlers.onTurnComplete();
+}
+
+/**
+ * Opens a tutoring session over `transport`. Everything protocol-specific lives here; the
+ * caller only sees decoded events through `handlers`. Dropped connections are re-established
+ * with backoff, resuming the server-side session when a handle is available.
+ */
+export async function startLiveSession(
+  transport: LiveTransport,
+  { systemInstruction, tools, voiceName, getHistory }: LiveSessionOptions,
+  handlers: LiveSessionHandlers,
+): Promise<LiveSession> {
+  let current: LiveTransportSession | null = null;
+  let closedByClient = false;
+  let resumptionHandle: string | undefined;
+  let lastError: string | null = null;
+  let reconnectAttempt = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  // Typed messages sent while reconnecting are delivered once the new connection is up.
+  const queuedText: string[] = [];
+
+  const connect = async (isReconnect: boolean): Promise<LiveTransportSession> => {
+    // Events from a connection that is no longer `current` belong to a dead socket and are ignored.
+    let session: LiveTransportSession | null = null;
+    const pending: LiveServerMessage[] = [];
+    const history = isReconnect && !resumptionHandle ? getHistory() : [];
+
+    session = await transport.connect({
+      model: LIVE_MODEL,
+      config: {
+        responseModalities: [Modality.AUDIO],
+        systemInstruction: systemInstruction + (history.length > 0 ? RESUME_INSTRUCTIONS(history) : ''),
+        tools: [{ functionDeclarations: tools }],
+        speechConfig: {
+          voiceConfig: { prebuiltVoiceConfig: { voiceName } },
+        },
+        // Enabling transcription for a better visual experience
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+        sessionResumption: { handle: resumptionHandle },
+      },
+      callbacks: {
+        onopen: () => {
+          if (!isReconnect) handlers.onOpen();
+        },
+        onmessage: (message) => {
+          if (!session) {
+            pending.push(message);
+            return;
+          }
+          if (session !== current) return;
+          const update = message.sessionResumptionUpdate;
+          if (update?.resumable && update.newHandle) resumptionHandle = update.newHandle;
+          if (message.goAway) {
+            // The server is about to drop us; move over while we still can.
+            scheduleReconnect(0);
+            return;
+          }
+          handleServerMessage(message, session, handlers);
+        },
+        onerror: (e) => {
+          console.error('Session error:', e);
+          lastError = e.message || 'Network error';
+        },
+        onclose: () => {
+          // Before `connect` resolves, a close surfaces as a rejected connect instead.
+          if (closedByClient || !session || session !== current) return;
+          if (lastError && isFatalSessionError(lastError)) {
+            handlers.onError(lastError);
+            handlers.onClose();
+            return;
+          }
+          scheduleReconnect();
+        },
+      },
+    });
+
+    current = session;
+    lastError = null;
+    pending.splice(0).forEach(message => handleServerMessage(message, session, handlers));
+    return session;
+  };
+
+  const scheduleReconnect = (delay?: number) => {
+    if (closedByClient || reconnectTimer) return;
+    const previous = current;
+    current = null;
+    try {
+      previous?.close();
+    } catch (e) {
+      console.warn('Session already closed', e);
+    }
+
+    if (reconnectAttempt >= MAX_RECONNECT_ATTEMPTS) {
+      handlers.onError(lastError || 'Lost connection to Sathi AI.');
+      handlers.onClose();
+      return;
+    }
+    reconnectAttempt += 1;
+    handlers.onReconnecting(reconnectAttempt);
+
+    const wait = delay ?? RECONNECT_DELAYS_MS[Math.min(reconnectAttempt - 1, RECONNECT_DELAYS_MS.length - 1)];
+    reconnectTimer = setTimeout(async () => {
+      reconnectTimer = null;
+      if (closedByClient) return;
+      try {
+        const session = await connect(true);
+        if (closedByClient) {
+          session.close();
+          return;
+        }
+        reconnectAttempt = 0;
+        queuedText.splice(0).forEach(text => session.sendRealtimeInput({ text }));
+        handlers.onReconnected();
+      } catch (err) {
+        console.error('Reconnect failed:', err);
+        lastError = err instanceof Error ? err.message : lastError;
+        // A resumption handle can expire; fall back to replaying the transcript.
+        resumptionHandle = undefined;
+        scheduleReconnect();
+      }
+    }, wait);
+  };
+
+  await connect(false);
+
+  return {
+    sendText: (text) => {
+      if (current) current.sendRealtimeInput({ text });
+      else queuedText.push(text);
+    },
+    sendAudio: (blob) => current?.sendRealtimeInput({ audio: blob }),
+    sendImage: (blob) => current?.sendRealtimeInput({ video: blob }),
+    endAudioStream: () => current?.sendRealtimeInput({ audioStreamEnd: true }),
+    close: () => {
+      closedByClient = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      try {
+        current?.close();
+      } catch (e) {
+        console.warn('Session already closed', e);
+      }
+      current = null;
+    },
+  };
+}
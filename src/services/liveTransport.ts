@@ -0,0 +1,61 @@
+import {
+  GoogleGenAI,
+  type LiveConnectConfig,
+  type LiveServerMessage,
+  type LiveSendRealtimeInputParameters,
+  type LiveSendToolResponseParameters,
+} from '@google/genai';
+import { createMockTransport } from './mockTransport';
+import { fetchLiveToken, type LiveToken } from './sessionToken';
+
+export interface LiveTransportCallbacks {
+  onopen: () => void;
+  onmessage: (message: LiveServerMessage) => void;
+  onerror: (error: { message?: string }) => void;
+  onclose: (event: { code?: number; reason?: string }) => void;
+}
+
+export interface LiveConnectOptions {
+  model: string;
+  config: LiveConnectConfig;
+  callbacks: LiveTransportCallbacks;
+}
+
+/** The subset of the Gemini Live `Session` the app relies on. */
+export interface LiveTransportSession {
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters): void;
+  sendToolResponse(params: LiveSendToolResponseParameters): void;
+  close(): void;
+}
+
+export interface LiveTransport {
+  readonly name: string;
+  connect(options: LiveConnectOptions): Promise<LiveTransportSession>;
+}
+
+/** Connects straight to Gemini Live with an ephemeral token minted by the Sathi server. */
+export function createGeminiTransport(getToken: () => Promise<LiveToken> = fetchLiveToken): LiveTransport {
+  return {
+    name: 'gemini',
+    connect: async ({ model, config, callbacks }) => {
+      const { token } = await getToken();
+      // Ephemeral tokens are only accepted on the v1alpha Live endpoint.
+      const ai = new GoogleGenAI({ apiKey: token, httpOptions: { apiVersion: 'v1alpha' } });
+      return ai.live.connect({ model, config, callbacks });
+    },
+  };
+}
+
+/**
+ * Picks the transport from the Vite env. `VITE_LIVE_TRANSPORT=mock` talks to the local
+ * stand-in server (`npm run mock-server`) so the UI can run without a Gemini key.
+ */
+export function createTransport(): LiveTransport {
+  if (import.meta.env.VITE_LIVE_TRANSPORT === 'mock') {
+    return createMockTransport(
+      import.meta.env.VITE_MOCK_LIVE_URL || 'ws://localhost:8787',
+      import.meta.env.VITE_MOCK_SCENARIO,
+    );
+  }
+  return createGeminiTransport();
+}
@@ -0,0 +1,20 @@
+import type {
+  LiveConnectConfig,
+  LiveServerMessage,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+} from '@google/genai';
+
+/**
+ * Wire format between `mockTransport` and the local mock server. It mirrors the shape
+ * of the Gemini Live messages closely enough that the session code cannot tell them apart.
+ */
+export type MockClientMessage =
+  | { setup: { model: string; config: LiveConnectConfig } }
+  | { realtimeInput: LiveSendRealtimeInputParameters }
+  | { toolResponse: LiveSendToolResponseParameters };
+
+/** `LiveServerMessage` without its computed getters, as it travels over JSON. */
+export type MockServerMessage = Omit<LiveServerMessage, 'text' | 'data'>;
+
+export const MOCK_ERROR_CLOSE_CODE = 1011;
@@ -0,0 +1,45 @@
+import type { LiveServerMessage } from '@google/genai';
+import type { LiveTransport, LiveTransportSession } from './liveTransport';
+import { MOCK_ERROR_CLOSE_CODE, type MockClientMessage } from './mockProtocol';
+
+export function createMockTransport(url: string, scenario?: string): LiveTransport {
+  return {
+    name: 'mock',
+    connect: ({ model, config, callbacks }) =>
+      new Promise<LiveTransportSession>((resolve, reject) => {
+        const target = new URL(url);
+        if (scenario) target.searchParams.set('scenario', scenario);
+        const socket = new WebSocket(target);
+        let opened = false;
+
+        const send = (message: MockClientMessage) => {
+          if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+        };
+
+        const session: LiveTransportSession = {
+          sendRealtimeInput: (params) => send({ realtimeInput: params }),
+          sendToolResponse: (params) => send({ toolResponse: params }),
+          close: () => socket.close(1000),
+        };
+
+        socket.onopen = () => {
+          opened = true;
+          send({ setup: { model, config } });
+          callbacks.onopen();
+          resolve(session);
+        };
+        socket.onmessage = (event) => {
+          callbacks.onmessage(JSON.parse(event.data as string) as LiveServerMessage);
+        };
+        socket.onerror = () => {
+          if (!opened) reject(new Error(`Mock live server is not reachable at ${url}`));
+        };
+        socket.onclose = (event) => {
+          if (event.code === MOCK_ERROR_CLOSE_CODE) {
+            callbacks.onerror({ message: event.reason || 'Mock server error' });
+          }
+          callbacks.onclose({ code: event.code, reason: event.reason });
+        };
+      }),
+  };
+}
@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { hasPasscode, lockoutMs, passcodeLockedUntil, setPasscode, verifyPasscode } from './passcode';
+
+const saved = new Map<string, unknown>();
+vi.mock('./storage', () => ({
+  loadValue: async (key: string) => saved.get(key),
+  saveValue: async (key: string, value: unknown) => void saved.set(key, value),
+}));
+
+beforeEach(() => {
+  saved.clear();
+  vi.useFakeTimers({ toFake: ['Date'] });
+});
+
+afterEach(() => vi.useRealTimers());
+
+describe('passcode', () => {
+  it('stores a hash, never the passcode itself', async () => {
+    expect(await hasPasscode('settings')).toBe(false);
+    await setPasscode('settings', '4821');
+    expect(await hasPasscode('settings')).toBe(true);
+    expect(JSON.stringify([...saved.values()])).not.toContain('4821');
+    expect(await verifyPasscode('settings', '4821')).toBe(true);
+    expect(await verifyPasscode('settings', '1111')).toBe(false);
+  });
+
+  it('shuts the gate for longer and longer after repeated wrong guesses', async () => {
+    await setPasscode('settings', '4821');
+    for (let i = 0; i < 2; i++) expect(await verifyPasscode('settings', '0000')).toBe(false);
+    expect(await passcodeLockedUntil('settings')).toBe(0);
+
+    await verifyPasscode('settings', '0001');
+    expect(await passcodeLockedUntil('settings')).toBe(Date.now() + lockoutMs(3));
+    // Even the right PIN is refused until the wait is over.
+    expect(await verifyPasscode('settings', '4821')).toBe(false);
+
+    vi.setSystemTime(Date.now() + lockoutMs(3));
+    expect(await verifyPasscode('settings', '0002')).toBe(false);
+    expect(await passcodeLockedUntil('settings')).toBe(Date.now() + lockoutMs(4));
+    expect(lockoutMs(4)).toBe(2 * lockoutMs(3));
+
+    vi.setSystemTime(Date.now() + lockoutMs(4));
+    expect(await verifyPasscode('settings', '4821')).toBe(true);
+    // A right guess starts the count again.
+    expect(await verifyPasscode('settings', '0000')).toBe(false);
+    expect(await passcodeLockedUntil('settings')).toBe(0);
+  });
+
+  it('never makes a grown-up wait more than a quarter of an hour', () => {
+    expect(lockoutMs(0)).toBe(0);
+    expect(lockoutMs(50)).toBe(15 * 60 * 1000);
+  });
+});
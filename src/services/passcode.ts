@@ -0,0 +1,67 @@
+import { loadValue, saveValue } from './storage';
+
+interface StoredPasscode {
+  salt: string;
+  hash: string;
+  /** Wrong guesses since the last right one. */
+  failures?: number;
+  lockedUntil?: number;
+}
+
+const PBKDF2_ITERATIONS = 100000;
+// A grown-up who mistypes gets a few goes; a child trying every PIN soon has to wait minutes.
+const FREE_ATTEMPTS = 3;
+const FIRST_LOCKOUT_MS = 30 * 1000;
+const MAX_LOCKOUT_MS = 15 * 60 * 1000;
+
+/** How long the gate stays shut after the `failures`th wrong guess in a row. */
+export function lockoutMs(failures: number): number {
+  if (failures < FREE_ATTEMPTS) return 0;
+  return Math.min(FIRST_LOCKOUT_MS * 2 ** (failures - FREE_ATTEMPTS), MAX_LOCKOUT_MS);
+}
+
+function toHex(bytes: ArrayBuffer | Uint8Array): string {
+  return Array.from(new Uint8Array(bytes), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function derive(passcode: string, salt: string): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(passcode), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: new TextEncoder().encode(salt), iterations: PBKDF2_ITERATIONS },
+    key,
+    256,
+  );
+  return toHex(bits);
+}
+
+/**
+ * Passcodes are stored salted and hashed on the device. They keep children out of
+ * grown-up screens on a shared tablet; they are not meant to stop a determined adult.
+ */
+export async function hasPasscode(name: string): Promise<boolean> {
+  return Boolean(await loadValue<StoredPasscode>(`passcode:${name}`));
+}
+
+export async function setPasscode(name: string, passcode: string): Promise<void> {
+  const salt = toHex(crypto.getRandomValues(new Uint8Array(16)));
+  await saveValue<StoredPasscode>(`passcode:${name}`, { salt, hash: await derive(passcode, salt) });
+}
+
+/** When the gate opens again after too many wrong guesses; 0 when it is not shut. */
+export async function passcodeLockedUntil(name: string): Promise<number> {
+  const lockedUntil = (await loadValue<StoredPasscode>(`passcode:${name}`))?.lockedUntil ?? 0;
+  return lockedUntil > Date.now() ? lockedUntil : 0;
+}
+
+/** Always false while the gate is shut, so guesses cannot be checked faster than the lockout allows. */
+export async function verifyPasscode(name: string, passcode: string): Promise<boolean> {
+  const stored = await loadValue<StoredPasscode>(`passcode:${name}`);
+  if (!stored || (stored.lockedUntil ?? 0) > Date.now()) return false;
+  if ((await derive(passcode, stored.salt)) === stored.hash) {
+    if (stored.failures) await saveValue<StoredPasscode>(`passcode:${name}`, { salt: stored.salt, hash: stored.hash });
+    return true;
+  }
+  const failures = (stored.failures ?? 0) + 1;
+  await saveValue<StoredPasscode>(`passcode:${name}`, { ...stored, failures, lockedUntil: Date.now() + lockoutMs(failures) });
+  return false;
+}
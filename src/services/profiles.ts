@@ -0,0 +1,62 @@
+import type { CompletedLesson, LessonSummary, PreferredLanguage, StudentProfile } from '../types';
+import { loadValue, saveValue } from './storage';
+
+const PROFILES_KEY = 'profiles';
+// Enough for the tutor to know what came before without bloating the instruction.
+const MAX_HISTORY = 20;
+
+export const PROFILE_AVATARS = ['🐯', '🦁', '🐘', '🦊', '🐼', '🐰', '🦋', '🐦', '🐢', '🐮', '🐐', '🐟'];
+
+export interface NewProfileInput {
+  name: string;
+  grade: number;
+  preferredLanguage: PreferredLanguage;
+  avatar: string;
+}
+
+export async function loadProfiles(): Promise<StudentProfile[]> {
+  const profiles = (await loadValue<StudentProfile[]>(PROFILES_KEY)) || [];
+  // Whoever learned most recently is most likely to be picking up the tablet again.
+  return [...profiles].sort((a, b) => (b.lastActiveAt ?? b.createdAt) - (a.lastActiveAt ?? a.createdAt));
+}
+
+async function saveProfiles(profiles: StudentProfile[]): Promise<void> {
+  await saveValue(PROFILES_KEY, profiles);
+}
+
+export async function createProfile(input: NewProfileInput, now = Date.now()): Promise<StudentProfile> {
+  const profile: StudentProfile = {
+    id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name: input.name.trim(),
+    grade: input.grade,
+    preferredLanguage: input.preferredLanguage,
+    avatar: input.avatar,
+    createdAt: now,
+    history: [],
+  };
+  await saveProfiles([...(await loadProfiles()), profile]);
+  return profile;
+}
+
+export async function updateProfile(profile: StudentProfile): Promise<void> {
+  const profiles = await loadProfiles();
+  await saveProfiles(profiles.map(p => (p.id === profile.id ? profile : p)));
+}
+
+export function summarizeLesson(lesson: CompletedLesson): LessonSummary {
+  return {
+    subject: lesson.subject,
+    unitTitle: lesson.unitTitle,
+    startedAt: lesson.startedAt,
+    durationMs: lesson.endedAt - lesson.startedAt,
+    wordsShown: lesson.wordsShown,
+  };
+}
+
+export function addLessonToProfile(profile: StudentProfile, lesson: CompletedLesson): StudentProfile {
+  return {
+    ...profile,
+    lastActiveAt: lesson.endedAt,
+    history: [summarizeLesson(lesson), ...profile.history].slice(0, MAX_HISTORY),
+  };
+}
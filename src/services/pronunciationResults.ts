@@ -0,0 +1,42 @@
+import type { PronunciationAttempt, PronunciationResults, PronunciationVerdict, TargetWord } from '../types';
+
+const VERDICTS: PronunciationVerdict[] = ['correct', 'close', 'incorrect'];
+
+/** Case and surrounding punctuation should not split one word into several entries. */
+export function normalizeWord(word: string): string {
+  return word.trim().replace(/^[\p{P}\s]+|[\p{P}\s]+$/gu, '').toLocaleLowerCase();
+}
+
+/**
+ * Validates the model's `reportPronunciationResult` arguments. Returns an error string the
+ * model can act on instead of throwing, since it goes straight back as the tool response.
+ */
+export function parsePronunciationResult(
+  args: Record<string, unknown> | undefined,
+  target: TargetWord | null,
+  timestamp = Date.now(),
+): PronunciationAttempt | string {
+  const word = typeof args?.word === 'string' ? args.word.trim() : '';
+  const verdict = args?.verdict as PronunciationVerdict;
+  const attempt = Number(args?.attempt);
+  if (!word) return 'Missing "word".';
+  if (!VERDICTS.includes(verdict)) return `"verdict" must be one of ${VERDICTS.join(', ')}.`;
+  if (!Number.isInteger(attempt) || attempt < 1) return '"attempt" must be a whole number starting at 1.';
+
+  const language = target && normalizeWord(target.word) === normalizeWord(word) ? target.language : 'Unknown';
+  return { word, language, attempt, verdict, timestamp };
+}
+
+export function recordPronunciationAttempt(results: PronunciationResults, attempt: PronunciationAttempt): PronunciationResults {
+  const key = normalizeWord(attempt.word);
+  return { ...results, [key]: [...(results[key] || []), attempt] };
+}
+
+export function attemptsFor(results: PronunciationResults, word: string): PronunciationAttempt[] {
+  return results[normalizeWord(word)] || [];
+}
+
+/** The last verdict counts: a word first said wrong and then right was mastered in this lesson. */
+export function finalVerdict(attempts: PronunciationAttempt[]): PronunciationVerdict | null {
+  return attempts.length > 0 ? attempts[attempts.length - 1].verdict : null;
+}
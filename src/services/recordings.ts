@@ -0,0 +1,37 @@
+import type { CompletedLesson, LessonRecording, StudentProfile } from '../types';
+import { redactPersonalInfo } from './safety';
+import { deleteRecord, getAllRecords, putRecord } from './storage';
+
+export function buildRecording(profile: StudentProfile, lesson: CompletedLesson, audio: Blob): LessonRecording {
+  return {
+    id: `${profile.id}-${lesson.startedAt}`,
+    profileId: profile.id,
+    studentName: profile.name,
+    subject: lesson.subject,
+    unitTitle: lesson.unitTitle,
+    startedAt: lesson.startedAt,
+    durationMs: lesson.endedAt - lesson.startedAt,
+    audio,
+    transcript: lesson.messages
+      .filter(m => m.text.trim())
+      .map(m => ({
+        offsetMs: Math.max(0, m.timestamp - lesson.startedAt),
+        role: m.role,
+        text: redactPersonalInfo(m.text.trim()),
+      })),
+  };
+}
+
+export async function saveRecording(recording: LessonRecording): Promise<void> {
+  await putRecord('recordings', recording);
+}
+
+/** Newest first. */
+export async function loadRecordings(): Promise<LessonRecording[]> {
+  const recordings = await getAllRecords<LessonRecording>('recordings');
+  return recordings.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export async function deleteRecording(id: string): Promise<void> {
+  await deleteRecord('recordings', id);
+}
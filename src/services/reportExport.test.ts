@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import type { LessonRecord } from '../types';
+import { csvCell, lessonsToCsv } from './reportExport';
+
+describe('csvCell', () => {
+  it('quotes commas, quotes and line breaks', () => {
+    expect(csvCell('Asha')).toBe('Asha');
+    expect(csvCell('circle; square, triangle')).toBe('"circle; square, triangle"');
+    expect(csvCell('say "hi"')).toBe('"say ""hi"""');
+    expect(csvCell(3)).toBe('3');
+  });
+
+  it('stops text from being read as a formula', () => {
+    expect(csvCell('=HYPERLINK("http://example.com","x")')).toBe('"\'=HYPERLINK(""http://example.com"",""x"")"');
+    expect(csvCell('+977')).toBe("'+977");
+    expect(csvCell('-2+3')).toBe("'-2+3");
+    expect(csvCell('@SUM(A1)')).toBe("'@SUM(A1)");
+    expect(csvCell('\t=1')).toBe("'\t=1");
+    expect(csvCell('Asha = 5')).toBe('Asha = 5');
+  });
+
+  it('quotes a bare carriage return, which would otherwise end the row', () => {
+    expect(csvCell('two\rlines')).toBe('"two\rlines"');
+    expect(csvCell('two\r\nlines')).toBe('"two\r\nlines"');
+    expect(csvCell('\r=1')).toBe('"\'\r=1"');
+  });
+});
+
+describe('lessonsToCsv', () => {
+  it('neutralises a student name typed as a formula', () => {
+    const record: LessonRecord = {
+      id: 'l1',
+      profileId: 'p1',
+      studentName: '=cmd',
+      grade: 2,
+      subject: 'Maths',
+      unitTitle: 'Shapes',
+      startedAt: Date.UTC(2026, 0, 5),
+      endedAt: Date.UTC(2026, 0, 5) + 90000,
+      durationMs: 90000,
+      wordsPracticed: [],
+      questions: [],
+      safetyEvents: [],
+    };
+    const [, row] = lessonsToCsv([record]).split('\r\n');
+    expect(row).toBe("'=cmd,2,Maths,Shapes,2026-01-05T00:00:00.000Z,1.5,,0,0,0,0");
+  });
+});
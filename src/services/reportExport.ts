@@ -0,0 +1,54 @@
+import type { LessonRecord } from '../types';
+
+const CSV_COLUMNS = [
+  'Student',
+  'Grade',
+  'Subject',
+  'Lesson',
+  'Started',
+  'Minutes',
+  'Words practised',
+  'Words correct',
+  'Spoken questions',
+  'Typed questions',
+  'Safety alerts',
+] as const;
+
+/** Quotes where needed, and keeps text like "=1+1" from running as a spreadsheet formula. */
+export function csvCell(value: string | number): string {
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** One row per lesson, ready for a spreadsheet. */
+export function lessonsToCsv(records: LessonRecord[]): string {
+  const rows = records.map(r => [
+    r.studentName,
+    r.grade,
+    r.subject,
+    r.unitTitle,
+    new Date(r.startedAt).toISOString(),
+    (r.durationMs / 60000).toFixed(1),
+    r.wordsPracticed.map(w => w.word).join('; '),
+    r.wordsPracticed.filter(w => w.finalVerdict === 'correct').length,
+    r.questions.filter(q => q.source === 'voice').length,
+    r.questions.filter(q => q.source === 'typed').length,
+    (r.safetyEvents ?? []).length,
+  ]);
+  // The BOM makes Excel read Devanagari as UTF-8.
+  return '﻿' + [CSV_COLUMNS, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+}
+
+export function lessonsToJson(records: LessonRecord[]): string {
+  return JSON.stringify({ exportedAt: new Date().toISOString(), lessons: records }, null, 2);
+}
+
+export function downloadFile(filename: string, content: string | Blob, mimeType: string) {
+  const blob = typeof content === 'string' ? new Blob([content], { type: mimeType }) : content;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
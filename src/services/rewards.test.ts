@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { addMasteredWord, addStar, currentStreak, earnBadges, emptyRewards, recordLearningDay } from './rewards';
+
+const day = (n: number, hour = 10) => new Date(2026, 0, 5 + n, hour).getTime();
+
+describe('rewards', () => {
+  it('counts stars per subject and each mastered word once', () => {
+    let rewards = addStar(addStar(emptyRewards(), 'Maths'), 'Science');
+    rewards = addStar(rewards, 'Maths');
+    expect(rewards.stars).toBe(3);
+    expect(rewards.starsBySubject).toEqual({ Maths: 2, Science: 1 });
+
+    rewards = addMasteredWord(rewards, 'Butterfly');
+    rewards = addMasteredWord(rewards, ' butterfly.');
+    rewards = addMasteredWord(rewards, '...');
+    expect(rewards.masteredWords).toEqual(['butterfly']);
+  });
+
+  it('grows a streak one day at a time and starts over after a missed day', () => {
+    let rewards = recordLearningDay(emptyRewards(), day(0));
+    rewards = recordLearningDay(rewards, day(0, 18));
+    expect(rewards.streakDays).toBe(1);
+
+    rewards = recordLearningDay(rewards, day(1, 8));
+    rewards = recordLearningDay(rewards, day(2, 23));
+    expect(rewards.streakDays).toBe(3);
+
+    rewards = recordLearningDay(rewards, day(4));
+    expect(rewards.streakDays).toBe(1);
+  });
+
+  it('keeps showing the streak until the day after the last lesson is over', () => {
+    let rewards = emptyRewards();
+    for (let n = 0; n < 4; n++) rewards = recordLearningDay(rewards, day(n));
+    expect(currentStreak(rewards, day(3, 20))).toBe(4);
+    expect(currentStreak(rewards, day(4, 23))).toBe(4);
+    expect(currentStreak(rewards, day(5, 1))).toBe(0);
+  });
+
+  it('awards each milestone badge once', () => {
+    let rewards = emptyRewards();
+    for (let i = 0; i < 10; i++) rewards = addStar(rewards, 'Maths');
+    for (let n = 0; n < 3; n++) rewards = recordLearningDay(rewards, day(n));
+
+    const first = earnBadges(rewards, day(2));
+    expect(first.earned.map(b => b.id)).toEqual(['stars:10:Maths', 'streak:3']);
+    expect(first.earned[0]).toEqual({ id: 'stars:10:Maths', kind: 'stars', count: 10, subject: 'Maths', earnedAt: day(2) });
+
+    const again = earnBadges(first.rewards, day(3));
+    expect(again.earned).toEqual([]);
+    expect(again.rewards).toBe(first.rewards);
+  });
+
+  it('awards word badges for mastered Pronunciation Challenge words', () => {
+    let rewards = emptyRewards();
+    for (let i = 0; i < 10; i++) rewards = addMasteredWord(rewards, `word${i}`);
+    expect(earnBadges(rewards).earned.map(b => b.id)).toEqual(['words:10']);
+  });
+});
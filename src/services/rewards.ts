@@ -0,0 +1,60 @@
+import type { EarnedBadge, StudentRewards } from '../types';
+import { normalizeWord } from './pronunciationResults';
+
+// Milestones that earn a badge: stars in one subject, Pronunciation words mastered, days in a row.
+const STAR_MILESTONES = [10, 25, 50, 100];
+const WORD_MILESTONES = [10, 25, 50, 100];
+const STREAK_MILESTONES = [3, 7, 30];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const dayKey = (timestamp: number) => new Date(timestamp).toDateString();
+
+export function emptyRewards(): StudentRewards {
+  return { stars: 0, starsBySubject: {}, masteredWords: [], badges: [], streakDays: 0 };
+}
+
+export function addStar(rewards: StudentRewards, subject: string): StudentRewards {
+  return {
+    ...rewards,
+    stars: rewards.stars + 1,
+    starsBySubject: { ...rewards.starsBySubject, [subject]: (rewards.starsBySubject[subject] ?? 0) + 1 },
+  };
+}
+
+export function addMasteredWord(rewards: StudentRewards, word: string): StudentRewards {
+  const key = normalizeWord(word);
+  if (!key || rewards.masteredWords.includes(key)) return rewards;
+  return { ...rewards, masteredWords: [...rewards.masteredWords, key] };
+}
+
+/** Counts the day of a finished lesson towards the streak; a missed day starts it over. */
+export function recordLearningDay(rewards: StudentRewards, now = Date.now()): StudentRewards {
+  const today = dayKey(now);
+  if (rewards.lastLearnedOn === today) return rewards;
+  const continues = rewards.lastLearnedOn === dayKey(now - DAY_MS);
+  return { ...rewards, streakDays: continues ? rewards.streakDays + 1 : 1, lastLearnedOn: today };
+}
+
+/** The streak as it stands now: it survives until the end of the day after the last lesson. */
+export function currentStreak(rewards: StudentRewards, now = Date.now()): number {
+  const last = rewards.lastLearnedOn;
+  return last === dayKey(now) || last === dayKey(now - DAY_MS) ? rewards.streakDays : 0;
+}
+
+/** Adds any badge whose milestone has been reached, and returns the new ones to celebrate. */
+export function earnBadges(rewards: StudentRewards, now = Date.now()): { rewards: StudentRewards; earned: EarnedBadge[] } {
+  const has = new Set(rewards.badges.map(b => b.id));
+  const earned: EarnedBadge[] = [];
+  const check = (badge: Omit<EarnedBadge, 'earnedAt'>, reached: boolean) => {
+    if (reached && !has.has(badge.id)) earned.push({ ...badge, earnedAt: now });
+  };
+
+  for (const [subject, stars] of Object.entries(rewards.starsBySubject)) {
+    for (const count of STAR_MILESTONES) check({ id: `stars:${count}:${subject}`, kind: 'stars', count, subject }, stars >= count);
+  }
+  for (const count of WORD_MILESTONES) check({ id: `words:${count}`, kind: 'words', count }, rewards.masteredWords.length >= count);
+  for (const count of STREAK_MILESTONES) check({ id: `streak:${count}`, kind: 'streak', count }, rewards.streakDays >= count);
+
+  return earned.length === 0 ? { rewards, earned } : { rewards: { ...rewards, badges: [...rewards.badges, ...earned] }, earned };
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { BUILT_IN_RULES, buildSafetyRules, findViolations, redactPersonalInfo, sanitizeText } from './safety';
+
+const ruleIds = (text: string, role: 'user' | 'model') => findViolations(text, role, BUILT_IN_RULES).map(r => r.id);
+
+describe('redactPersonalInfo', () => {
+  it('redacts phone numbers', () => {
+    expect(redactPersonalInfo('my number is 9841234567')).toBe('my number is [phone]');
+    expect(redactPersonalInfo('call +977 9812345678 please')).toBe('call [phone] please');
+    expect(redactPersonalInfo('it is 984-1234567')).toBe('it is [phone]');
+    expect(redactPersonalInfo('फोन ९८४१२३४५६७ हो')).toBe('फोन [phone] हो');
+  });
+
+  it('redacts email addresses', () => {
+    expect(redactPersonalInfo('write to ram.sharma@example.com')).toBe('write to [email]');
+  });
+
+  it('redacts addresses with a place name and a number', () => {
+    expect(redactPersonalInfo('I live in Kalimati ward 4.')).toBe('I live in [address].');
+    expect(redactPersonalInfo('house no. 12, Baneshwor')).toBe('[address]');
+    expect(redactPersonalInfo('we are at 12 Durbar Marg')).toBe('we are at [address]');
+    expect(redactPersonalInfo('काठमाडौं वडा नं. ४ मा बस्छु')).toBe('[address] मा बस्छु');
+  });
+
+  it('leaves ordinary lesson speech alone', () => {
+    for (const text of [
+      'Look both ways before you cross the road.',
+      '1 2 3 4 5 6 7 8 9 10',
+      '१ २ ३ ४ ५ ६ ७',
+      'I live in Nepal',
+      'My home is in the hills',
+      'house 4',
+      'There are 100 houses on Durbar Marg.',
+      'Ten lakh is written 10,00,000.',
+    ]) {
+      expect(redactPersonalInfo(text), text).toBe(text);
+    }
+  });
+});
+
+describe('findViolations', () => {
+  it('flags a student sharing a phone number or address', () => {
+    expect(ruleIds('my number is 9841234567', 'user')).toContain('shares-personal-info');
+    expect(ruleIds('I live in Kalimati ward 4', 'user')).toContain('shares-personal-info');
+  });
+
+  it('does not flag counting, road safety or naming a country', () => {
+    expect(ruleIds('1 2 3 4 5 6 7 8 9 10', 'user')).toEqual([]);
+    expect(ruleIds('१ २ ३ ४ ५ ६ ७', 'user')).toEqual([]);
+    expect(ruleIds('Look both ways before you cross the road.', 'user')).toEqual([]);
+    expect(ruleIds('I live in Nepal', 'user')).toEqual([]);
+    expect(ruleIds('house 4', 'user')).toEqual([]);
+  });
+
+  it('lets the tutor talk about medicine in a Health lesson', () => {
+    expect(ruleIds('When you are ill, doctors give drugs that help you get better.', 'model')).toEqual([]);
+    expect(ruleIds('Clean the cut, then the nurse gives you medicine.', 'model')).toEqual([]);
+  });
+
+  it('still blocks the tutor on substances and asking for personal details', () => {
+    expect(ruleIds('Let us drink some beer', 'model')).toEqual(['substances']);
+    expect(ruleIds('What is your phone number?', 'model')).toEqual(['asks-personal-info']);
+  });
+
+  it('only applies a rule to the role it is for', () => {
+    expect(ruleIds('beer', 'user')).toEqual([]);
+    expect(ruleIds('I want to die', 'model')).toEqual([]);
+    expect(ruleIds('I want to die', 'user')).toEqual(['distress']);
+  });
+
+  it('finds the same words on every call', () => {
+    const rules = buildSafetyRules(['mango']);
+    expect(findViolations('a mango', 'user', rules).map(r => r.id)).toEqual(['custom']);
+    expect(findViolations('a mango', 'user', rules).map(r => r.id)).toEqual(['custom']);
+  });
+});
+
+describe('sanitizeText', () => {
+  it('masks blocked words and the parent\'s own terms', () => {
+    expect(sanitizeText('what the shit', buildSafetyRules(['mango']))).toBe('what the ••••');
+    expect(sanitizeText('I like Mango', buildSafetyRules(['mango']))).toBe('I like •••••');
+  });
+});
@@ -0,0 +1,113 @@
+import type { Message, SafetyEvent } from '../types';
+
+export type SafetyCategory = 'adult' | 'violence' | 'substances' | 'profanity' | 'personal-info' | 'distress' | 'custom';
+
+/**
+ * A pattern checked against transcripts and typed text. When the tutor says something that
+ * matches, its turn is cut off; when the student does, the lesson carries on and the event
+ * is kept for parents. `mask` hides the matched words wherever the text is shown or stored.
+ */
+export interface SafetyRule {
+  id: string;
+  category: SafetyCategory;
+  appliesTo: Message['role'] | 'both';
+  mask: boolean;
+  pattern: RegExp;
+}
+
+const DIGIT = '[\\d०-९]';
+// Place names are capitalised in transcripts; on their own, "road" or "house" are just lesson words.
+const PROPER_NOUN = '[A-Z][a-z]+(?:[\\s-][A-Z][a-z]+)*';
+const HOME_WORD = '(?:[Ww]ard|[Ww]ada|[Hh]ouse|[Gg]har)(?:\\s*(?:[Nn]o\\.?|[Nn]umber))?';
+const STREET_WORD = '(?:[Ss]treet|[Rr]oad|[Mm]arg|[Tt]ole|[Cc]howk|[Gg]alli)\\b';
+
+const PERSONAL_INFO_PATTERNS: { pattern: RegExp; replacement: string }[] = [
+  { pattern: /[\w.%+-]+@[\w-]+(?:\.[\w-]+)+/g, replacement: '[email]' },
+  // One unbroken run of 7 to 10 digits, or a 98x mobile prefix and seven digits, after an optional +977.
+  // Digits said one at a time ("1 2 3 4 5 6 7") are counting, not a number.
+  {
+    pattern: new RegExp(`(?<!${DIGIT})(?:\\+?977[\\s-]?)?(?:[9९][78७८]${DIGIT}[\\s-]${DIGIT}{7}|${DIGIT}{7,10})(?!${DIGIT})`, 'g'),
+    replacement: '[phone]',
+  },
+  // An address needs a place name and a number: "Kalimati ward 4", "house no. 12, Baneshwor", "12 Durbar Marg".
+  { pattern: new RegExp(`\\b${PROPER_NOUN},?\\s+${HOME_WORD}\\s*${DIGIT}+`, 'g'), replacement: '[address]' },
+  { pattern: new RegExp(`\\b${HOME_WORD}\\s*${DIGIT}+,?\\s+${PROPER_NOUN}`, 'g'), replacement: '[address]' },
+  { pattern: new RegExp(`${DIGIT}+,?\\s+${PROPER_NOUN}\\s+${STREET_WORD}`, 'g'), replacement: '[address]' },
+  { pattern: new RegExp(`\\b${PROPER_NOUN}\\s+${STREET_WORD},?\\s*(?:[Nn]o\\.?\\s*)?${DIGIT}+`, 'g'), replacement: '[address]' },
+  // Devanagari has no capitals, so the place name is the word before "वडा नं." or "घर नम्बर".
+  { pattern: new RegExp(`[\\u0900-\\u0963\\u0966-\\u097F]+,?\\s*(?:वडा|घर)\\s*(?:नं\\.?|नम्बर)\\s*${DIGIT}+`, 'g'), replacement: '[address]' },
+];
+
+function words(list: string[]): RegExp {
+  return new RegExp(`\\b(?:${list.join('|')})\\b`, 'gi');
+}
+
+export const BUILT_IN_RULES: SafetyRule[] = [
+  { id: 'adult', category: 'adult', appliesTo: 'both', mask: true, pattern: words(['sex\\w*', 'porn\\w*', 'nude', 'naked']) },
+  { id: 'violence', category: 'violence', appliesTo: 'model', mask: true, pattern: words(['murder\\w*', 'suicide', 'guns?', 'weapons?', 'bombs?']) },
+  { id: 'substances', category: 'substances', appliesTo: 'model', mask: true, pattern: words(['beer', 'whisky', 'raksi', 'cigarettes?', 'ganja', 'marijuana', 'cocaine', 'heroin']) },
+  { id: 'profanity', category: 'profanity', appliesTo: 'both', mask: true, pattern: words(['fuck\\w*', 'shit\\w*', 'bitch\\w*', 'bastard']) },
+  {
+    id: 'asks-personal-info',
+    category: 'personal-info',
+    appliesTo: 'model',
+    mask: false,
+    pattern: /\b(?:what is|tell me) your (?:phone|mobile|number|address|password)|where do you live/gi,
+  },
+  {
+    id: 'shares-personal-info',
+    category: 'personal-info',
+    appliesTo: 'user',
+    mask: false,
+    // Case-sensitive: the address patterns tell place names by their capitals.
+    pattern: new RegExp(PERSONAL_INFO_PATTERNS.map(p => p.pattern.source).join('|')),
+  },
+  {
+    id: 'distress',
+    category: 'distress',
+    appliesTo: 'user',
+    mask: false,
+    pattern: /\b(?:hurt myself|kill myself|want to die|hits me|beats me|touch(?:es|ed) me)\b|मर्न मन|मलाई पिट्छ/gi,
+  },
+];
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** The built-in rules plus one rule for the parent's own blocked words. */
+export function buildSafetyRules(blockedTerms: string[]): SafetyRule[] {
+  const terms = blockedTerms.map(t => t.trim()).filter(Boolean);
+  if (terms.length === 0) return BUILT_IN_RULES;
+  return [
+    ...BUILT_IN_RULES,
+    { id: 'custom', category: 'custom', appliesTo: 'both', mask: true, pattern: new RegExp(terms.map(escapeRegExp).join('|'), 'gi') },
+  ];
+}
+
+export function findViolations(text: string, role: Message['role'], rules: SafetyRule[]): SafetyRule[] {
+  // A copy without the global flag, so `lastIndex` from an earlier match never skips text.
+  return rules.filter(rule => (rule.appliesTo === 'both' || rule.appliesTo === role) && new RegExp(rule.pattern.source, rule.pattern.flags.replace('g', '')).test(text));
+}
+
+export function redactPersonalInfo(text: string): string {
+  return PERSONAL_INFO_PATTERNS.reduce((out, { pattern, replacement }) => out.replace(pattern, replacement), text);
+}
+
+/** Redacts personal information and masks blocked words. Apply to anything shown, stored or exported. */
+export function sanitizeText(text: string, rules: SafetyRule[] = BUILT_IN_RULES): string {
+  return rules
+    .filter(rule => rule.mask)
+    .reduce((out, rule) => out.replace(new RegExp(rule.pattern.source, 'gi'), match => '•'.repeat(match.length)), redactPersonalInfo(text));
+}
+
+export function sanitizeMessages(messages: Message[], rules: SafetyRule[] = BUILT_IN_RULES): Message[] {
+  return messages.map(m => {
+    const text = sanitizeText(m.text, rules);
+    return text === m.text ? m : { ...m, text };
+  });
+}
+
+export function createSafetyEvent(rule: SafetyRule, role: Message['role'], timestamp = Date.now()): SafetyEvent {
+  return { timestamp, role, ruleId: rule.id, category: rule.category, action: role === 'model' ? 'blocked' : 'flagged' };
+}
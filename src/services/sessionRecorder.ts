@@ -0,0 +1,140 @@
+import { createWavFile, decode } from './audioService';
+import { createTimeStretcher } from './timeStretch';
+
+/** Recordings are mixed down to this rate; it matches the mic and keeps files small. */
+export const RECORDING_SAMPLE_RATE = 16000;
+
+interface Segment {
+  startMs: number;
+  sampleRate: number;
+  samples: Int16Array;
+  /** The speed the player used, so the tutor is recorded as fast or slow as the child heard it. */
+  rate: number;
+}
+
+export interface SessionRecorder {
+  /** Adds a packet of the student's speech that has just been captured. */
+  addStudentAudio(samples: Float32Array, sampleRate: number): void;
+  /** Adds a base64 PCM chunk of the tutor, queued like the player queues it at `rate`. */
+  addTutorAudio(base64: string, rate?: number): void;
+  /** Drops tutor audio that was queued but never played. */
+  interruptTutor(): void;
+  /** Mixes both sides into one mono WAV file. */
+  finish(): Promise<Blob>;
+}
+
+function toInt16(samples: Float32Array): Int16Array {
+  const out = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    out[i] = s < 0 ? s * 32768 : s * 32767;
+  }
+  return out;
+}
+
+export function encodeWav(samples: Float32Array, sampleRate: number): Blob {
+  return new Blob([createWavFile(new Uint8Array(toInt16(samples).buffer), sampleRate)], { type: 'audio/wav' });
+}
+
+const durationMs = (segment: Segment) => (segment.samples.length / segment.sampleRate / segment.rate) * 1000;
+
+function concat(parts: Float32Array[]): Float32Array {
+  const out = new Float32Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+}
+
+/**
+ * Slowed tutor audio as the player stretched it: chunks that played back to back go through one
+ * stretcher, so the joins sound the same in the recording as they did in the lesson.
+ */
+function stretchTutor(tutor: Segment[]): { startMs: number; sampleRate: number; samples: Float32Array }[] {
+  const runs: { startMs: number; sampleRate: number; samples: Float32Array }[] = [];
+  for (let i = 0; i < tutor.length; ) {
+    const first = tutor[i];
+    const parts: Float32Array[] = [];
+    let endMs = first.startMs;
+    for (; i < tutor.length && tutor[i].startMs === endMs && tutor[i].rate === first.rate; i++) {
+      parts.push(Float32Array.from(tutor[i].samples, s => s / 32768));
+      endMs += durationMs(tutor[i]);
+    }
+    let samples = concat(parts);
+    if (first.rate !== 1) {
+      const stretcher = createTimeStretcher(first.rate, first.sampleRate);
+      samples = concat([stretcher.process(samples), stretcher.flush()]);
+    }
+    runs.push({ startMs: first.startMs, sampleRate: first.sampleRate, samples });
+  }
+  return runs;
+}
+
+/**
+ * Keeps both sides of a lesson on one timeline that starts at `startedAt`, the same clock the
+ * transcript uses. Samples are held as 16-bit PCM until the lesson ends.
+ */
+export function createSessionRecorder(startedAt: number, tutorSampleRate = 24000): SessionRecorder {
+  const student: Segment[] = [];
+  let tutor: Segment[] = [];
+  let studentEndMs = 0;
+  let tutorEndMs = 0;
+  const elapsed = () => Date.now() - startedAt;
+
+  const dropUnplayedTutor = () => {
+    const now = elapsed();
+    tutor = tutor
+      .filter(s => s.startMs < now)
+      .map(s => {
+        // At a slower rate, each millisecond that played covered less of the tutor's own audio.
+        const heard = Math.floor(((now - s.startMs) / 1000) * s.sampleRate * s.rate);
+        return heard < s.samples.length ? { ...s, samples: s.samples.subarray(0, heard) } : s;
+      });
+    tutorEndMs = Math.min(tutorEndMs, now);
+  };
+
+  return {
+    addStudentAudio: (samples, sampleRate) => {
+      const segment: Segment = { startMs: 0, sampleRate, samples: toInt16(samples), rate: 1 };
+      // The packet has just finished, so it started its own length ago.
+      segment.startMs = Math.max(studentEndMs, elapsed() - durationMs(segment));
+      studentEndMs = segment.startMs + durationMs(segment);
+      student.push(segment);
+    },
+    addTutorAudio: (base64, rate = 1) => {
+      const bytes = decode(base64);
+      const segment: Segment = {
+        startMs: Math.max(tutorEndMs, elapsed()),
+        sampleRate: tutorSampleRate,
+        samples: new Int16Array(bytes.buffer, bytes.byteOffset, bytes.byteLength >> 1),
+        rate,
+      };
+      tutorEndMs = segment.startMs + durationMs(segment);
+      tutor.push(segment);
+    },
+    interruptTutor: dropUnplayedTutor,
+    finish: async () => {
+      // Whatever was still queued when the lesson ended was never heard.
+      dropUnplayedTutor();
+      const segments = [
+        ...student.map(s => ({ ...s, samples: Float32Array.from(s.samples, x => x / 32768) })),
+        ...stretchTutor(tutor.filter(s => s.samples.length > 0)),
+      ].filter(s => s.samples.length > 0);
+      const totalMs = Math.max(studentEndMs, elapsed(), 1);
+      // The offline context resamples the tutor's 24 kHz audio and mixes both sides in one pass.
+      const ctx = new OfflineAudioContext(1, Math.ceil((totalMs / 1000) * RECORDING_SAMPLE_RATE), RECORDING_SAMPLE_RATE);
+      for (const segment of segments) {
+        const buffer = ctx.createBuffer(1, segment.samples.length, segment.sampleRate);
+        buffer.getChannelData(0).set(segment.samples);
+        const source = ctx.createBufferSource();
+        source.buffer = buffer;
+        source.connect(ctx.destination);
+        source.start(segment.startMs / 1000);
+      }
+      const mixed = await ctx.startRendering();
+      return encodeWav(mixed.getChannelData(0), RECORDING_SAMPLE_RATE);
+    },
+  };
+}
@@ -0,0 +1,25 @@
+export interface LiveToken {
+  token: string;
+  model: string;
+  expiresAt: string;
+}
+
+const TOKEN_ENDPOINT = import.meta.env.VITE_TOKEN_ENDPOINT || '/api/live-token';
+
+/**
+ * Asks the Sathi server for a short-lived, single-use Live API token.
+ * The real Gemini key stays on the server and never reaches the browser.
+ */
+export async function fetchLiveToken(): Promise<LiveToken> {
+  let response: Response;
+  try {
+    response = await fetch(TOKEN_ENDPOINT, { method: 'POST' });
+  } catch {
+    throw new Error('Could not reach the Sathi AI server. Please check the internet connection.');
+  }
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok || !body.token) {
+    throw new Error(body.error || `Sathi AI server error (${response.status})`);
+  }
+  return body as LiveToken;
+}
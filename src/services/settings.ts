@@ -0,0 +1,49 @@
+import type { UiLanguage } from '../i18n';
+import type { TutorVoice } from '../types';
+import { loadValue, saveValue } from './storage';
+
+const SETTINGS_KEY = 'settings';
+
+/**
+ * Device-wide settings. The UI language and the playback controls are the student's to change;
+ * everything else sits behind the settings PIN.
+ */
+export interface AppSettings {
+  uiLanguage: UiLanguage;
+  /** Play the tutor at `SLOW_SPEECH_RATE`. */
+  slowSpeech: boolean;
+  /** Tutor volume, 0 to 1. */
+  volume: number;
+  tutorVoice: TutorVoice;
+  /** Show numbers with Devanagari digits. */
+  nepaliNumerals: boolean;
+  /** Lessons wrap up and end after this many minutes. */
+  maxSessionMinutes: number;
+  /** Extra words to keep out of the lesson, on top of the built-in safety rules. */
+  blockedTerms: string[];
+  /** Keep the audio of each lesson on the device for the dashboard. */
+  recordLessons: boolean;
+}
+
+export const SESSION_LENGTH_OPTIONS = [10, 15, 20, 30, 45, 60];
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  uiLanguage: 'ne',
+  slowSpeech: false,
+  volume: 1,
+  tutorVoice: 'didi',
+  nepaliNumerals: false,
+  maxSessionMinutes: 20,
+  blockedTerms: [],
+  recordLessons: false,
+};
+
+export async function loadSettings(): Promise<AppSettings> {
+  const stored = await loadValue<Partial<AppSettings>>(SETTINGS_KEY);
+  // Settings saved by an older version may lack newer fields.
+  return { ...DEFAULT_SETTINGS, ...stored };
+}
+
+export async function saveSettings(settings: AppSettings): Promise<void> {
+  await saveValue(SETTINGS_KEY, settings);
+}
@@ -0,0 +1,94 @@
+export interface SpeakerOptions {
+  /** 0 to 1. */
+  volume?: number;
+  /** 1 is normal speed. */
+  rate?: number;
+}
+
+/** Reads the tutor's replies aloud with the browser's speech synthesis, for turn-by-turn lessons. */
+export interface Speaker {
+  /** Queues `text` after anything still being spoken. */
+  speak(text: string): void;
+  /** Says the last reply again. False when there is none. */
+  replayLast(): boolean;
+  readonly canReplay: boolean;
+  setVolume(volume: number): void;
+  setRate(rate: number): void;
+  /** Stops speaking, e.g. when the student starts talking. */
+  cancel(): void;
+}
+
+interface ScriptRun {
+  text: string;
+  devanagari: boolean;
+}
+
+const DEVANAGARI = /[\u0900-\u097F]/;
+
+/** Splits bilingual text into Nepali and English runs, so each can be read by a matching voice. */
+function splitByScript(text: string): ScriptRun[] {
+  const runs: ScriptRun[] = [];
+  for (const word of text.split(/(\s+)/)) {
+    if (!word) continue;
+    // Spaces and punctuation stay with the run they sit in.
+    const devanagari = DEVANAGARI.test(word) || (!/[A-Za-z]/.test(word) && runs.length > 0 && runs[runs.length - 1].devanagari);
+    const last = runs[runs.length - 1];
+    if (last && last.devanagari === devanagari) last.text += word;
+    else runs.push({ text: word, devanagari });
+  }
+  return runs.filter(run => run.text.trim());
+}
+
+// Few devices have a Nepali voice; a Hindi one reads Devanagari far better than an English one.
+const NEPALI_LANGS = ['ne-NP', 'ne', 'hi-IN', 'hi'];
+const ENGLISH_LANGS = ['en-IN', 'en-GB', 'en-US', 'en'];
+
+function pickVoice(langs: string[]): SpeechSynthesisVoice | undefined {
+  const voices = window.speechSynthesis.getVoices();
+  for (const lang of langs) {
+    const voice = voices.find(v => v.lang.replace('_', '-').toLowerCase().startsWith(lang.toLowerCase()));
+    if (voice) return voice;
+  }
+  return undefined;
+}
+
+export function createSpeaker({ volume = 1, rate = 1 }: SpeakerOptions = {}): Speaker {
+  const synth = window.speechSynthesis;
+  let lastText: string | null = null;
+
+  const say = (text: string) => {
+    for (const run of splitByScript(text)) {
+      const utterance = new SpeechSynthesisUtterance(run.text);
+      const langs = run.devanagari ? NEPALI_LANGS : ENGLISH_LANGS;
+      const voice = pickVoice(langs);
+      utterance.lang = voice?.lang ?? langs[0];
+      if (voice) utterance.voice = voice;
+      utterance.volume = volume;
+      utterance.rate = rate;
+      synth.speak(utterance);
+    }
+  };
+
+  return {
+    speak: (text) => {
+      lastText = text;
+      say(text);
+    },
+    replayLast: () => {
+      if (!lastText) return false;
+      say(lastText);
+      return true;
+    },
+    get canReplay() {
+      return lastText !== null;
+    },
+    // Utterances already queued keep their settings; the next reply picks up the change.
+    setVolume: (next) => {
+      volume = next;
+    },
+    setRate: (next) => {
+      rate = next;
+    },
+    cancel: () => synth.cancel(),
+  };
+}
@@ -0,0 +1,63 @@
+const DB_NAME = 'sathi-ai';
+const DB_VERSION = 3;
+const KV_STORE = 'kv';
+/** Object stores holding one record per item, keyed by the record's `id`. */
+export type RecordStore = 'lessons' | 'recordings';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(KV_STORE)) db.createObjectStore(KV_STORE);
+        for (const store of ['lessons', 'recordings'] satisfies RecordStore[]) {
+          if (!db.objectStoreNames.contains(store)) {
+            db.createObjectStore(store, { keyPath: 'id' }).createIndex('profileId', 'profileId');
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/** Everything the app remembers between visits lives on the device, in IndexedDB. */
+export async function loadValue<T>(key: string): Promise<T | undefined> {
+  const db = await openDb();
+  return requestToPromise(db.transaction(KV_STORE).objectStore(KV_STORE).get(key)) as Promise<T | undefined>;
+}
+
+export async function saveValue<T>(key: string, value: T): Promise<void> {
+  const db = await openDb();
+  await requestToPromise(db.transaction(KV_STORE, 'readwrite').objectStore(KV_STORE).put(value, key));
+}
+
+export async function putRecord<T extends { id: string }>(store: RecordStore, record: T): Promise<void> {
+  const db = await openDb();
+  await requestToPromise(db.transaction(store, 'readwrite').objectStore(store).put(record));
+}
+
+export async function getAllRecords<T>(store: RecordStore): Promise<T[]> {
+  const db = await openDb();
+  return requestToPromise(db.transaction(store).objectStore(store).getAll()) as Promise<T[]>;
+}
+
+export async function deleteRecord(store: RecordStore, id: string): Promise<void> {
+  const db = await openDb();
+  await requestToPromise(db.transaction(store, 'readwrite').objectStore(store).delete(id));
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { createTimeStretcher } from './timeStretch';
+
+const SAMPLE_RATE = 24000;
+
+const sine = (hz: number, seconds: number) =>
+  Float32Array.from({ length: Math.round(SAMPLE_RATE * seconds) }, (_, i) => 0.5 * Math.sin((2 * Math.PI * hz * i) / SAMPLE_RATE));
+
+const stretch = (rate: number, input: Float32Array, chunkSize = input.length) => {
+  const stretcher = createTimeStretcher(rate, SAMPLE_RATE);
+  const parts: Float32Array[] = [];
+  for (let i = 0; i < input.length; i += chunkSize) parts.push(stretcher.process(input.subarray(i, i + chunkSize)));
+  parts.push(stretcher.flush());
+  const out = new Float32Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+};
+
+/** Upward zero crossings per second, a stand-in for pitch. */
+const frequency = (samples: Float32Array) => {
+  let crossings = 0;
+  for (let i = 1; i < samples.length; i++) if (samples[i - 1] < 0 && samples[i] >= 0) crossings++;
+  return crossings / (samples.length / SAMPLE_RATE);
+};
+
+describe('createTimeStretcher', () => {
+  it('makes audio longer by one over the rate', () => {
+    const input = sine(220, 2);
+    const frame = SAMPLE_RATE * 0.03;
+    expect(Math.abs(stretch(0.75, input).length - input.length / 0.75)).toBeLessThan(frame);
+    expect(Math.abs(stretch(1, input).length - input.length)).toBeLessThan(frame);
+  });
+
+  it('keeps the pitch of the voice', () => {
+    const out = stretch(0.75, sine(220, 2));
+    // Leave out the edges, where the first frame fades in.
+    expect(frequency(out.subarray(SAMPLE_RATE * 0.1, out.length - SAMPLE_RATE * 0.1))).toBeCloseTo(220, -1);
+  });
+
+  it('gives the same audio whether it arrives in one piece or in network-sized chunks', () => {
+    const input = sine(180, 1);
+    expect(stretch(0.75, input, 960)).toEqual(stretch(0.75, input));
+  });
+
+  it('starts over after a flush', () => {
+    const stretcher = createTimeStretcher(0.75, SAMPLE_RATE);
+    const input = sine(200, 0.5);
+    const first = stretcher.process(input);
+    stretcher.flush();
+    expect(stretcher.process(input)).toEqual(first);
+    stretcher.flush();
+    // Too little audio for a frame is held back and handed over by the flush.
+    expect(stretcher.process(new Float32Array(100))).toHaveLength(0);
+    expect(stretcher.flush()).toHaveLength(100);
+  });
+});
@@ -0,0 +1,98 @@
+export interface TimeStretcher {
+  /** Takes the next samples of a stream and returns whatever stretched audio is ready. */
+  process(input: Float32Array): Float32Array;
+  /** Returns the held-back tail unstretched and starts over, e.g. at the end of a turn. */
+  flush(): Float32Array;
+}
+
+export interface TimeStretchOptions {
+  /** Length of each overlapped frame. Long enough to hold a couple of pitch periods. */
+  frameMs?: number;
+  /** How far a frame may move to line up with the previous one. */
+  seekMs?: number;
+}
+
+function concat(parts: Float32Array[]): Float32Array {
+  const out = new Float32Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+}
+
+/**
+ * Streaming WSOLA: frames are read `rate` times as fast as they are written, and each one is
+ * nudged to where it best continues the last, so speech slows down without dropping in pitch.
+ */
+export function createTimeStretcher(
+  rate: number,
+  sampleRate: number,
+  { frameMs = 30, seekMs = 6 }: TimeStretchOptions = {},
+): TimeStretcher {
+  const hop = Math.round((sampleRate * frameMs) / 2000);
+  const frameSize = hop * 2;
+  const seek = Math.round((sampleRate * seekMs) / 1000);
+  // A periodic Hann window; two of them at half-frame overlap add up to exactly one.
+  const window = Float32Array.from({ length: frameSize }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / frameSize));
+
+  let input: Float32Array = new Float32Array(0);
+  let position = seek;
+  // Where the last frame was read from; it goes below zero once the audio before it is dropped.
+  let previous: number | null = null;
+  let overlap = new Float32Array(hop);
+
+  const bestStart = (target: number): number => {
+    if (previous === null) return target;
+    // Compare against how the previous frame would have carried on in the original audio.
+    const natural = previous + hop;
+    let best = target;
+    let bestScore = -Infinity;
+    for (let start = target - seek; start <= target + seek; start++) {
+      let score = 0;
+      for (let i = 0; i < hop; i++) score += input[natural + i] * input[start + i];
+      if (score > bestScore) {
+        bestScore = score;
+        best = start;
+      }
+    }
+    return best;
+  };
+
+  return {
+    process: (chunk) => {
+      input = concat([input, chunk]);
+      const output: Float32Array[] = [];
+
+      while (Math.round(position) + seek + frameSize <= input.length && (previous === null || previous + hop + frameSize <= input.length)) {
+        const start = bestStart(Math.round(position));
+        const out = new Float32Array(hop);
+        for (let i = 0; i < hop; i++) out[i] = overlap[i] + input[start + i] * window[i];
+        overlap = new Float32Array(hop);
+        for (let i = 0; i < hop; i++) overlap[i] = input[start + hop + i] * window[hop + i];
+        output.push(out);
+        previous = start;
+        position += hop * rate;
+      }
+
+      // Drop input that no later frame or comparison can reach.
+      const consumed = Math.min(Math.round(position) - seek, previous === null ? Infinity : previous + hop);
+      if (consumed > 0) {
+        input = input.slice(consumed);
+        position -= consumed;
+        if (previous !== null) previous -= consumed;
+      }
+      return concat(output);
+    },
+    flush: () => {
+      // The pending overlap plus the rest of its frame is the original audio from `previous + hop`.
+      const tail = previous === null ? input : input.slice(previous + hop);
+      input = new Float32Array(0);
+      position = seek;
+      previous = null;
+      overlap = new Float32Array(hop);
+      return tail;
+    },
+  };
+}
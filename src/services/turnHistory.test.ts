@@ -0,0 +1,68 @@
+import type { Content } from '@google/genai';
+import { describe, expect, it } from 'vitest';
+import { readCurriculumFiles } from '../../server/curriculumFiles';
+import { parseTurnRequest, type TurnRequest } from '../../server/turnRequest';
+import { validateCurriculumPacks } from './curriculum';
+import { fitTurnHistory, MAX_TURN_CONTENTS, MAX_TURN_TEXT_LENGTH } from './turnHistory';
+
+const say = (role: 'user' | 'model', text: string): Content => ({ role, parts: [{ text }] });
+
+/** A lesson of `turns` exchanges after the opening note, as a turn session builds it. */
+function longLesson(turns: number): Content[] {
+  const contents = [say('user', 'Note: the lesson is starting.')];
+  for (let i = 0; i < turns; i++) {
+    contents.push(say('model', `Question ${i}: how many legs does a spider have?`));
+    contents.push(say('user', `Answer ${i}: eight`));
+  }
+  return contents;
+}
+
+describe('fitTurnHistory', () => {
+  it('leaves a short lesson as it is', () => {
+    const contents = longLesson(3);
+    expect(fitTurnHistory(contents)).toEqual(contents);
+  });
+
+  it('keeps the opening and the latest turns of a long lesson', () => {
+    const contents = longLesson(300);
+    const fitted = fitTurnHistory(contents);
+    expect(fitted.length).toBeLessThanOrEqual(MAX_TURN_CONTENTS);
+    expect(fitted[0]).toEqual(contents[0]);
+    expect(fitted[1].role).toBe('model');
+    expect(fitted[fitted.length - 1]).toEqual(contents[contents.length - 1]);
+    // The turn session's own copy is untouched.
+    expect(contents).toHaveLength(601);
+  });
+
+  it('cuts a long carried-over transcript and joins many short lines', () => {
+    const transcript = { role: 'model', parts: [{ text: 'Namaste! '.repeat(1000) }, ...Array.from({ length: 40 }, (_, i) => ({ text: `Line ${i}` }))] };
+    const [fitted] = fitTurnHistory([transcript]);
+    expect(fitted.parts!.length).toBeLessThanOrEqual(20);
+    expect(fitted.parts!.every(p => p.text!.length <= MAX_TURN_TEXT_LENGTH)).toBe(true);
+    expect(fitted.parts![fitted.parts!.length - 1].text).toContain('Line 39');
+  });
+
+  it('does not start on a tool answer whose call was left out', () => {
+    // Just enough later turns that the cut falls between a tool call and its answer.
+    const contents = [
+      ...longLesson(50),
+      { role: 'model', parts: [{ functionCall: { id: 'c1', name: 'showShape', args: { shape: 'circle' } } }] },
+      { role: 'user', parts: [{ functionResponse: { id: 'c1', name: 'showShape', response: { result: 'ok' } } }] },
+      ...longLesson(99).slice(1),
+    ];
+    const fitted = fitTurnHistory(contents);
+    expect(fitted[1].role).toBe('model');
+    expect(fitted.some(c => c.parts!.some(p => p.functionCall || p.functionResponse))).toBe(false);
+  });
+
+  it('makes a request the Sathi server accepts, however long the lesson', async () => {
+    const { packs } = validateCurriculumPacks((await readCurriculumFiles()).files);
+    const contents = longLesson(400);
+    contents.splice(1, 0, say('model', 'From the live lesson: '.repeat(500)));
+    const body = { lesson: { packId: 'maths', unitId: 'shapes', grade: 2 }, tools: [], contents };
+
+    expect(parseTurnRequest(body, packs)).toHaveProperty('error');
+    const turn = parseTurnRequest({ ...body, contents: fitTurnHistory(contents) }, packs) as TurnRequest;
+    expect(turn.contents[turn.contents.length - 1]).toEqual(say('user', 'Answer 399: eight'));
+  });
+});
@@ -0,0 +1,55 @@
+import type { Content, Part } from '@google/genai';
+
+// What the Sathi server accepts in one turn request: generous for a real lesson, too little to use
+// the relay as a general-purpose model. `fitTurnHistory` keeps the client inside them.
+export const MAX_TURN_CONTENTS = 200;
+export const MAX_TURN_PARTS = 20;
+export const MAX_TURN_TEXT_LENGTH = 4000;
+// Older turns beyond this much text are left out, so a long lesson's requests stay small on 2G.
+const MAX_HISTORY_TEXT = 40000;
+
+const textLength = (content: Content) => (content.parts ?? []).reduce((n, p) => n + (p.text?.length ?? 0), 0);
+
+/** Joins neighbouring text, keeps the end of any text that is still too long, then the newest parts. */
+function fitParts(parts: Part[]): Part[] {
+  const joined: Part[] = [];
+  for (const part of parts) {
+    const last = joined[joined.length - 1];
+    if (part.text !== undefined && last?.text !== undefined && last.text.length + part.text.length < MAX_TURN_TEXT_LENGTH) {
+      joined[joined.length - 1] = { text: `${last.text}\n${part.text}` };
+    } else {
+      joined.push(part);
+    }
+  }
+  return joined
+    .map(p => (p.text !== undefined && p.text.length > MAX_TURN_TEXT_LENGTH ? { text: `…${p.text.slice(1 - MAX_TURN_TEXT_LENGTH)}` } : p))
+    .slice(-MAX_TURN_PARTS);
+}
+
+/**
+ * The history to send with the next turn: the first content, which sets the lesson up, and as
+ * many of the latest as fit the server's limits. `contents` itself is left as it is.
+ */
+export function fitTurnHistory(contents: Content[]): Content[] {
+  const fitted = contents.map(c => ({ ...c, parts: fitParts(c.parts ?? []) }));
+  if (fitted.length === 0) return fitted;
+  const [first, ...rest] = fitted;
+
+  let budget = MAX_HISTORY_TEXT - textLength(first);
+  let start = rest.length;
+  // The newest content always goes, even on its own over budget.
+  while (start > 0 && rest.length - start < MAX_TURN_CONTENTS - 1) {
+    const cost = textLength(rest[start - 1]);
+    if (start < rest.length && cost > budget) break;
+    budget -= cost;
+    start -= 1;
+  }
+  const recent = rest.slice(start);
+
+  // After a gap, start on a turn that can follow the first: another role, and no tool answers
+  // whose calls were left out.
+  if (start > 0) {
+    while (recent.length > 1 && (recent[0].role === first.role || recent[0].parts.some(p => p.functionResponse))) recent.shift();
+  }
+  return [first, ...recent];
+}
@@ -0,0 +1,47 @@
+import type { Content } from '@google/genai';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { TurnLesson } from '../constants';
+import { startTurnSession, type TurnSessionHandlers } from './turnSession';
+
+const lesson: TurnLesson = { packId: 'maths', unitId: 'shapes', grade: 2 };
+
+const handlers: TurnSessionHandlers = {
+  onTranscription: () => {},
+  onTurnComplete: () => {},
+  onToolCall: () => ({}),
+  onTurnFailed: () => {},
+};
+
+/** Answers every turn with "Syabash!" and keeps the contents each request sent. */
+function stubServer() {
+  const sent: Content[][] = [];
+  vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => {
+    sent.push(JSON.parse(init.body as string).contents);
+    return new Response(JSON.stringify({ content: { role: 'model', parts: [{ text: 'Syabash!' }] } }));
+  }));
+  return sent;
+}
+
+const inlineData = (contents: Content[]) => contents.flatMap(c => c.parts ?? []).filter(p => p.inlineData);
+
+afterEach(() => vi.unstubAllGlobals());
+
+describe('startTurnSession', () => {
+  it('sends a clip or picture once, and a note in its place after that', async () => {
+    const sent = stubServer();
+    const session = startTurnSession({ lesson, tools: [], history: [], openingNote: 'Start the lesson.' }, handlers);
+    await vi.waitFor(() => expect(sent).toHaveLength(1));
+    session.sendImage({ mimeType: 'image/jpeg', data: '/9j/' });
+    session.sendText('Look at my drawing');
+    session.sendAudio({ mimeType: 'audio/pcm;rate=16000', data: 'AAAAAA==' });
+    session.endAudioStream();
+    session.sendText('Is it right?');
+    await vi.waitFor(() => expect(sent).toHaveLength(4));
+
+    expect(inlineData(sent[1]).map(p => p.inlineData?.mimeType)).toEqual(['image/jpeg']);
+    expect(inlineData(sent[2]).map(p => p.inlineData?.mimeType)).toEqual(['audio/wav']);
+    expect(inlineData(sent[3])).toEqual([]);
+    expect(JSON.stringify(sent[3])).toContain('A picture from the student, already answered.');
+    expect(JSON.stringify(sent[3])).toContain('A voice clip from the student, already answered.');
+  });
+});
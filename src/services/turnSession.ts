@@ -0,0 +1,164 @@
+import type { Content, FunctionCall, FunctionDeclaration, GenerateContentResponseUsageMetadata, Part } from '@google/genai';
+import type { Message } from '../types';
+import { VOICE_CLIP_TEXT, type TurnLesson } from '../constants';
+import { CAPTURE_SAMPLE_RATE } from './audioCapture';
+import { createWavFile, decode, encode } from './audioService';
+import type { LiveSession, LiveSessionHandlers } from './liveSession';
+import { fitTurnHistory } from './turnHistory';
+
+const TURN_ENDPOINT = import.meta.env.VITE_TURN_ENDPOINT || '/api/generate';
+// The model may call a tool and then talk about it; more rounds than this means it is stuck.
+const MAX_TOOL_ROUNDS = 4;
+// Stand in for clips and pictures once they have been answered, so later turns do not send them again.
+const ANSWERED_CLIP_NOTE = '(A voice clip from the student, already answered.)';
+const ANSWERED_IMAGE_NOTE = '(A picture from the student, already answered.)';
+// A clip longer than this is cut off; it keeps a turn well inside the server's request limit.
+const MAX_CLIP_BYTES = 30 * CAPTURE_SAMPLE_RATE * 2;
+
+export type TurnSessionHandlers = Pick<LiveSessionHandlers, 'onTranscription' | 'onTurnComplete' | 'onToolCall' | 'onUsage'> & {
+  /** A turn could not be sent. The lesson goes on and the student can try again. */
+  onTurnFailed: (message: string) => void;
+};
+
+export interface TurnSessionOptions {
+  /** The server builds the tutor's instruction from this. */
+  lesson: TurnLesson;
+  tools: FunctionDeclaration[];
+  /** The conversation so far, when a live lesson moves over. */
+  history: Message[];
+  /** Sent first, since the tutor cannot start talking on its own. */
+  openingNote: string;
+}
+
+function pushContent(contents: Content[], role: 'user' | 'model', parts: Part[]) {
+  const last = contents[contents.length - 1];
+  if (last?.role === role) last.parts = [...(last.parts ?? []), ...parts];
+  else contents.push({ role, parts });
+}
+
+/** Swaps every clip and picture in `contents` for a short note. */
+function forgetMedia(contents: Content[]) {
+  for (const content of contents) {
+    if (!content.parts?.some(p => p.inlineData)) continue;
+    content.parts = content.parts.map(p =>
+      p.inlineData ? { text: p.inlineData.mimeType?.startsWith('audio/') ? ANSWERED_CLIP_NOTE : ANSWERED_IMAGE_NOTE } : p,
+    );
+  }
+}
+
+interface TurnReply {
+  content: Content;
+  usageMetadata?: GenerateContentResponseUsageMetadata;
+}
+
+async function requestTurn(lesson: TurnLesson, tools: FunctionDeclaration[], contents: Content[]): Promise<TurnReply> {
+  let response: Response;
+  try {
+    response = await fetch(TURN_ENDPOINT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ lesson, tools, contents: fitTurnHistory(contents) }),
+    });
+  } catch {
+    throw new Error('Could not reach the Sathi AI server. Please check the internet connection.');
+  }
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok || !body.content) {
+    throw new Error(body.error || `Sathi AI server error (${response.status})`);
+  }
+  return body as TurnReply;
+}
+
+/**
+ * Runs a lesson as plain request/response calls through the Sathi server, for keys without
+ * Live API access and connections too poor to stream. It offers the same `LiveSession` calls:
+ * audio is collected until `endAudioStream` and sent as one clip, and each reply arrives whole
+ * as a model transcription.
+ */
+export function startTurnSession(
+  { lesson, tools, history, openingNote }: TurnSessionOptions,
+  handlers: TurnSessionHandlers,
+): LiveSession {
+  const contents: Content[] = [];
+  for (const m of history) {
+    if (m.text.trim()) pushContent(contents, m.role, [{ text: m.text.trim() }]);
+  }
+  let audioChunks: Uint8Array[] = [];
+  let clipBytes = 0;
+  // Only the latest camera frame or photo goes along with the next turn.
+  let pendingImage: Part | null = null;
+  let closed = false;
+  let queue = Promise.resolve();
+
+  const runTurn = async (parts: Part[]) => {
+    if (closed) return;
+    const keep = contents.length;
+    const keepParts = contents[keep - 1]?.parts;
+    pushContent(contents, 'user', pendingImage ? [pendingImage, ...parts] : parts);
+    pendingImage = null;
+    try {
+      for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+        const { content: reply, usageMetadata: usage } = await requestTurn(lesson, tools, contents);
+        if (closed) return;
+        if (usage) {
+          handlers.onUsage?.({ promptTokens: usage.promptTokenCount, responseTokens: usage.candidatesTokenCount, totalTokens: usage.totalTokenCount });
+        }
+        const replyParts = reply.parts ?? [];
+        pushContent(contents, 'model', replyParts);
+
+        const text = replyParts.map(p => p.text ?? '').join('').trim();
+        if (text) handlers.onTranscription('model', text);
+        const calls = replyParts.map(p => p.functionCall).filter((c): c is FunctionCall => !!c);
+        if (calls.length === 0) break;
+        pushContent(contents, 'user', calls.map(call => ({
+          functionResponse: { id: call.id, name: call.name, response: handlers.onToolCall(call) },
+        })));
+      }
+      // Only the newest turn carries audio or a picture; a lesson's requests stay small.
+      forgetMedia(contents);
+      handlers.onTurnComplete();
+    } catch (err) {
+      // Forget the failed turn, so the next try does not carry it along.
+      contents.splice(keep);
+      if (keep > 0) contents[keep - 1].parts = keepParts;
+      console.error('Turn failed:', err);
+      handlers.onTurnFailed(err instanceof Error ? err.message : 'Could not reach Sathi AI');
+    }
+  };
+
+  const send = (parts: Part[]) => {
+    queue = queue.then(() => runTurn(parts));
+  };
+
+  send([{ text: openingNote }]);
+
+  return {
+    sendText: (text) => send([{ text }]),
+    sendAudio: (blob) => {
+      if (clipBytes >= MAX_CLIP_BYTES) return;
+      const pcm = decode(blob.data);
+      audioChunks.push(pcm);
+      clipBytes += pcm.byteLength;
+    },
+    sendImage: (blob) => {
+      pendingImage = { inlineData: blob };
+    },
+    endAudioStream: () => {
+      if (audioChunks.length === 0) return;
+      const pcm = audioChunks;
+      audioChunks = [];
+      clipBytes = 0;
+      const clip = new Uint8Array(pcm.reduce((n, c) => n + c.byteLength, 0));
+      let offset = 0;
+      for (const chunk of pcm) {
+        clip.set(chunk, offset);
+        offset += chunk.byteLength;
+      }
+      handlers.onTranscription('user', VOICE_CLIP_TEXT);
+      send([{ inlineData: { mimeType: 'audio/wav', data: encode(createWavFile(clip, CAPTURE_SAMPLE_RATE)) } }]);
+    },
+    close: () => {
+      closed = true;
+    },
+  };
+}
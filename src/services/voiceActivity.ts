@@ -0,0 +1,84 @@
+export interface VoiceActivityOptions {
+  frameMs: number;
+  /** RMS level that always counts as speech, whatever the room noise. */
+  minThreshold?: number;
+  /** How far above the tracked noise floor a frame has to be to count as speech. */
+  noiseFactor?: number;
+  /** Keep sending this long after the last voiced frame so word endings are not clipped. */
+  hangoverMs?: number;
+  /** Frames held back while silent and flushed at speech onset, so the first syllable survives. */
+  preRollMs?: number;
+}
+
+export interface VoiceActivityResult {
+  /** Frames that should be sent now, in order. Empty while the student is silent. */
+  frames: Float32Array[];
+  speechStarted: boolean;
+  speechEnded: boolean;
+}
+
+export interface VoiceActivityDetector {
+  process(frame: Float32Array): VoiceActivityResult;
+  readonly speaking: boolean;
+  reset(): void;
+}
+
+function rms(frame: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < frame.length; i++) sum += frame[i] * frame[i];
+  return Math.sqrt(sum / frame.length);
+}
+
+/** Energy-based detector with an adaptive noise floor; cheap enough for low-end tablets. */
+export function createVoiceActivityDetector({
+  frameMs,
+  minThreshold = 0.012,
+  noiseFactor = 3,
+  hangoverMs = 500,
+  preRollMs = 200,
+}: VoiceActivityOptions): VoiceActivityDetector {
+  const hangoverFrames = Math.ceil(hangoverMs / frameMs);
+  const preRollFrames = Math.ceil(preRollMs / frameMs);
+  let noiseFloor = minThreshold / noiseFactor;
+  let speaking = false;
+  let silentFrames = 0;
+  let preRoll: Float32Array[] = [];
+
+  return {
+    get speaking() {
+      return speaking;
+    },
+    reset: () => {
+      speaking = false;
+      silentFrames = 0;
+      preRoll = [];
+    },
+    process: (frame) => {
+      const level = rms(frame);
+      const voiced = level > Math.max(minThreshold, noiseFloor * noiseFactor);
+
+      if (!speaking) {
+        // Only learn the noise floor from silence, otherwise loud speech raises it.
+        if (!voiced) noiseFloor = noiseFloor * 0.95 + level * 0.05;
+        if (!voiced) {
+          preRoll.push(frame);
+          if (preRoll.length > preRollFrames) preRoll.shift();
+          return { frames: [], speechStarted: false, speechEnded: false };
+        }
+        speaking = true;
+        silentFrames = 0;
+        const frames = [...preRoll, frame];
+        preRoll = [];
+        return { frames, speechStarted: true, speechEnded: false };
+      }
+
+      silentFrames = voiced ? 0 : silentFrames + 1;
+      if (silentFrames > hangoverFrames) {
+        speaking = false;
+        silentFrames = 0;
+        return { frames: [], speechStarted: false, speechEnded: true };
+      }
+      return { frames: [frame], speechStarted: false, speechEnded: false };
+    },
+  };
+}
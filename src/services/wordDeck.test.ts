@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import type { PronunciationVerdict } from '../types';
+import { addShownWord, applyAttempt, dueCards, type WordDeck } from './wordDeck';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONDAY = new Date(2026, 0, 5, 10).getTime();
+
+const attempt = (word: string, verdict: PronunciationVerdict, timestamp = MONDAY) => ({
+  word,
+  language: 'English',
+  attempt: 1,
+  verdict,
+  timestamp,
+});
+
+describe('word deck', () => {
+  it('adds a shown word once, whatever its case or punctuation', () => {
+    let deck: WordDeck = {};
+    deck = addShownWord(deck, { word: 'Butterfly', language: 'English' }, MONDAY);
+    deck = addShownWord(deck, { word: 'butterfly!', language: 'English' }, MONDAY);
+    expect(Object.keys(deck)).toEqual(['butterfly']);
+    expect(deck.butterfly).toMatchObject({ word: 'Butterfly', box: 0, timesShown: 2, dueAt: MONDAY });
+  });
+
+  it('moves a correct word up one box a day and spaces its reviews out', () => {
+    let deck = applyAttempt({}, attempt('पुतली', 'correct'), MONDAY);
+    expect(deck['पुतली']).toMatchObject({ box: 1, dueAt: MONDAY + DAY_MS, timesCorrect: 1 });
+
+    // Getting it right again in the same lesson does not skip ahead.
+    deck = applyAttempt(deck, attempt('पुतली', 'correct'), MONDAY + 60000);
+    expect(deck['पुतली']).toMatchObject({ box: 1, timesCorrect: 2 });
+
+    deck = applyAttempt(deck, attempt('पुतली', 'correct'), MONDAY + DAY_MS);
+    expect(deck['पुतली']).toMatchObject({ box: 2, dueAt: MONDAY + 4 * DAY_MS });
+  });
+
+  it('stops at the last box', () => {
+    let deck: WordDeck = {};
+    for (let day = 0; day < 10; day++) deck = applyAttempt(deck, attempt('cow', 'correct'), MONDAY + day * DAY_MS);
+    expect(deck.cow.box).toBe(5);
+    expect(deck.cow.dueAt).toBe(MONDAY + 9 * DAY_MS + 30 * DAY_MS);
+  });
+
+  it('drops a close word one box and a wrong one back to the start', () => {
+    let deck: WordDeck = {};
+    for (let day = 0; day < 3; day++) deck = applyAttempt(deck, attempt('tiger', 'correct'), MONDAY + day * DAY_MS);
+    const later = MONDAY + 10 * DAY_MS;
+
+    const close = applyAttempt(deck, attempt('tiger', 'close'), later);
+    expect(close.tiger).toMatchObject({ box: 2, dueAt: later + DAY_MS, lastVerdict: 'close' });
+
+    const wrong = applyAttempt(deck, attempt('tiger', 'incorrect'), later);
+    expect(wrong.tiger).toMatchObject({ box: 0, dueAt: later, lastVerdict: 'incorrect' });
+  });
+
+  it('lists due words hardest first, up to the limit', () => {
+    let deck: WordDeck = {};
+    deck = applyAttempt(deck, attempt('easy', 'correct'), MONDAY - 2 * DAY_MS);
+    deck = applyAttempt(deck, attempt('hard', 'incorrect'), MONDAY - DAY_MS);
+    deck = applyAttempt(deck, attempt('older', 'incorrect'), MONDAY - 2 * DAY_MS);
+    deck = applyAttempt(deck, attempt('later', 'correct'), MONDAY);
+
+    expect(dueCards(deck, MONDAY).map(c => c.word)).toEqual(['older', 'hard', 'easy']);
+    expect(dueCards(deck, MONDAY, 2).map(c => c.word)).toEqual(['older', 'hard']);
+  });
+});
@@ -0,0 +1,89 @@
+import type { PronunciationAttempt, PronunciationVerdict, TargetWord } from '../types';
+import { normalizeWord } from './pronunciationResults';
+import { loadValue, saveValue } from './storage';
+
+export interface DeckCard {
+  word: string;
+  language: string;
+  /** Leitner box: 0 is "still learning", higher boxes come back less often. */
+  box: number;
+  dueAt: number;
+  timesShown: number;
+  timesCorrect: number;
+  lastVerdict: PronunciationVerdict | null;
+  lastSeenAt: number;
+  /** Day key of the last promotion, so repeating a word within one lesson only counts once. */
+  promotedOn?: string;
+}
+
+/** Cards keyed by normalized word. */
+export type WordDeck = Record<string, DeckCard>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Days until the next review for each box.
+const BOX_INTERVALS_DAYS = [0, 1, 3, 7, 14, 30];
+const MAX_BOX = BOX_INTERVALS_DAYS.length - 1;
+// Each student has their own deck.
+const deckKey = (profileId: string) => `wordDeck:${profileId}`;
+
+const dayKey = (timestamp: number) => new Date(timestamp).toDateString();
+
+function newCard(target: TargetWord, now: number): DeckCard {
+  return {
+    word: target.word,
+    language: target.language,
+    box: 0,
+    dueAt: now,
+    timesShown: 0,
+    timesCorrect: 0,
+    lastVerdict: null,
+    lastSeenAt: now,
+  };
+}
+
+export function addShownWord(deck: WordDeck, target: TargetWord, now = Date.now()): WordDeck {
+  const key = normalizeWord(target.word);
+  const card = deck[key] || newCard(target, now);
+  return { ...deck, [key]: { ...card, timesShown: card.timesShown + 1, lastSeenAt: now } };
+}
+
+/**
+ * Reschedules a card after an attempt. Correct moves it up one box (at most once a day),
+ * close drops it a box and brings it back tomorrow, incorrect sends it back to the start.
+ */
+export function applyAttempt(deck: WordDeck, attempt: PronunciationAttempt, now = Date.now()): WordDeck {
+  const key = normalizeWord(attempt.word);
+  const card: DeckCard = { ...(deck[key] || newCard(attempt, now)), lastVerdict: attempt.verdict, lastSeenAt: now };
+
+  if (attempt.verdict === 'correct') {
+    card.timesCorrect += 1;
+    if (card.promotedOn !== dayKey(now)) {
+      card.box = Math.min(card.box + 1, MAX_BOX);
+      card.promotedOn = dayKey(now);
+    }
+    card.dueAt = now + BOX_INTERVALS_DAYS[card.box] * DAY_MS;
+  } else if (attempt.verdict === 'close') {
+    card.box = Math.max(card.box - 1, 0);
+    card.dueAt = now + DAY_MS;
+  } else {
+    card.box = 0;
+    card.dueAt = now;
+  }
+  return { ...deck, [key]: card };
+}
+
+/** Due cards, hardest first: lowest box, then the most overdue. */
+export function dueCards(deck: WordDeck, now = Date.now(), limit = 8): DeckCard[] {
+  return Object.values(deck)
+    .filter(card => card.dueAt <= now)
+    .sort((a, b) => a.box - b.box || a.dueAt - b.dueAt)
+    .slice(0, limit);
+}
+
+export async function loadDeck(profileId: string): Promise<WordDeck> {
+  return (await loadValue<WordDeck>(deckKey(profileId))) || {};
+}
+
+export async function saveDeck(profileId: string, deck: WordDeck): Promise<void> {
+  await saveValue(deckKey(profileId), deck);
+}
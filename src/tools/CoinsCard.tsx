@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import type { CoinsData } from './coins';
+import { RUPEE_COINS } from './declarations';
+import type { ToolCardProps } from './types';
+import { useI18n } from '../i18n';
+
+const NOTE_COLORS: Record<number, string> = {
+  5: 'bg-red-200 border-red-400 text-red-900',
+  10: 'bg-orange-200 border-orange-400 text-orange-900',
+  20: 'bg-lime-200 border-lime-500 text-lime-900',
+  50: 'bg-violet-200 border-violet-400 text-violet-900',
+  100: 'bg-emerald-200 border-emerald-500 text-emerald-900',
+  500: 'bg-sky-200 border-sky-500 text-sky-900',
+  1000: 'bg-stone-200 border-stone-500 text-stone-900',
+};
+
+const CoinsCard: React.FC<ToolCardProps<CoinsData>> = ({ data, onAnswer }) => {
+  const { t, num } = useI18n();
+  const [total, setTotal] = useState('');
+  const [sent, setSent] = useState(false);
+
+  const send = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!total || sent) return;
+    setSent(true);
+    onAnswer(t('coins.counted', { total }));
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-4">
+      <div className="flex flex-wrap justify-center items-center gap-3">
+        {data.items.map((value, i) =>
+          RUPEE_COINS.includes(value) ? (
+            <div
+              key={i}
+              className="w-16 h-16 md:w-20 md:h-20 rounded-full bg-amber-300 border-4 border-amber-500 shadow-md flex flex-col items-center justify-center font-bold text-amber-900"
+            >
+              <span className="text-xl md:text-2xl leading-none">{num(value)}</span>
+              <span className="text-[9px] uppercase">{t('coins.rupee')}</span>
+            </div>
+          ) : (
+            <div
+              key={i}
+              className={`w-28 h-14 md:w-32 md:h-16 rounded-lg border-2 shadow-md flex items-center justify-between px-2 font-bold ${NOTE_COLORS[value]}`}
+            >
+              <span className="text-xl md:text-2xl">{num(value)}</span>
+              <span className="text-[10px] uppercase">{t('coins.rupees')}</span>
+            </div>
+          ),
+        )}
+      </div>
+      {data.askTotal && (
+        <form onSubmit={send} className="flex items-center gap-2">
+          <label className="font-bold text-sky-800">{t('coins.total')}</label>
+          <input
+            type="number"
+            inputMode="numeric"
+            min={0}
+            value={total}
+            onChange={(e) => setTotal(e.target.value)}
+            disabled={sent}
+            className="w-28 px-3 py-2 rounded-xl border-2 border-sky-200 focus:border-sky-400 focus:outline-none text-xl font-bold"
+          />
+          <button
+            type="submit"
+            disabled={!total || sent}
+            className="px-5 py-2 bg-orange-500 hover:bg-orange-600 disabled:opacity-50 text-white font-bold rounded-full shadow-md"
+          >
+            {sent ? t('coins.sent') : t('common.send')}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default CoinsCard;
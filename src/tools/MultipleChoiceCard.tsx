@@ -0,0 +1,39 @@
+import React, { useState } from 'react';
+import type { MultipleChoiceData } from './multipleChoice';
+import type { ToolCardProps } from './types';
+import { useI18n } from '../i18n';
+
+const OPTION_COLORS = ['bg-sky-100 text-sky-900', 'bg-orange-100 text-orange-900', 'bg-green-100 text-green-900', 'bg-pink-100 text-pink-900'];
+
+const MultipleChoiceCard: React.FC<ToolCardProps<MultipleChoiceData>> = ({ data, onAnswer }) => {
+  const { t } = useI18n();
+  const [chosen, setChosen] = useState<string | null>(null);
+
+  const choose = (option: string) => {
+    if (chosen) return;
+    setChosen(option);
+    onAnswer(t('tool.myAnswer', { answer: option }));
+  };
+
+  return (
+    <div>
+      <p className="text-lg md:text-2xl font-bold text-sky-900 text-center mb-4">{data.question}</p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {data.options.map((option, i) => (
+          <button
+            key={option}
+            onClick={() => choose(option)}
+            disabled={chosen !== null}
+            className={`px-4 py-4 rounded-2xl text-lg md:text-xl font-bold shadow-sm transition-all ${OPTION_COLORS[i % OPTION_COLORS.length]} ${
+              chosen === option ? 'ring-4 ring-orange-400 scale-105' : chosen ? 'opacity-50' : 'hover:scale-105'
+            }`}
+          >
+            {option}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default MultipleChoiceCard;
@@ -0,0 +1,58 @@
+import React from 'react';
+import type { ShapeName } from './declarations';
+import { SHAPE_LABELS, type ShapeData } from './shape';
+import type { ToolCardProps } from './types';
+import { useI18n } from '../i18n';
+
+const SIZE = 200;
+const CENTER = SIZE / 2;
+
+function regularPolygon(sides: number, radius: number): [number, number][] {
+  // Start at the top so triangles and pentagons stand on a flat base.
+  return Array.from({ length: sides }, (_, i) => {
+    const angle = -Math.PI / 2 + (2 * Math.PI * i) / sides;
+    return [CENTER + radius * Math.cos(angle), CENTER + radius * Math.sin(angle) + (sides === 3 ? 15 : 0)];
+  });
+}
+
+const CORNERS: Record<ShapeName, [number, number][]> = {
+  circle: [],
+  oval: [],
+  triangle: regularPolygon(3, 95),
+  square: [[30, 30], [170, 30], [170, 170], [30, 170]],
+  rectangle: [[10, 55], [190, 55], [190, 145], [10, 145]],
+  pentagon: regularPolygon(5, 90),
+  hexagon: regularPolygon(6, 90),
+};
+
+const ShapeCard: React.FC<ToolCardProps<ShapeData>> = ({ data }) => {
+  const { language, t } = useI18n();
+  const corners = CORNERS[data.shape];
+  const label = SHAPE_LABELS[data.shape];
+  const shapeClass = 'fill-green-200 stroke-green-600';
+
+  return (
+    <div className="flex flex-col items-center">
+      <svg viewBox={`-10 -10 ${SIZE + 20} ${SIZE + 20}`} className="w-48 h-48 md:w-64 md:h-64" role="img" aria-label={data.showName ? (language === 'ne' ? label.nepali : label.english) : t('shape.label')}>
+        {data.shape === 'circle' && <circle cx={CENTER} cy={CENTER} r={90} strokeWidth={6} className={shapeClass} />}
+        {data.shape === 'oval' && <ellipse cx={CENTER} cy={CENTER} rx={95} ry={60} strokeWidth={6} className={shapeClass} />}
+        {corners.length > 0 && (
+          <polygon points={corners.map(([x, y]) => `${x},${y}`).join(' ')} strokeWidth={6} strokeLinejoin="round" className={shapeClass} />
+        )}
+        {data.showCorners && corners.map(([x, y], i) => (
+          <g key={i}>
+            <circle cx={x} cy={y} r={11} className="fill-orange-500" />
+            <text x={x} y={y} dy="0.35em" textAnchor="middle" className="fill-white text-[12px] font-bold">{i + 1}</text>
+          </g>
+        ))}
+      </svg>
+      {data.showName && (
+        <p className="mt-2 text-2xl md:text-3xl font-bold text-green-800">
+          {label.english} <span className="text-green-600">/ {label.nepali}</span>
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ShapeCard;
@@ -0,0 +1,154 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { TracingData } from './tracing';
+import type { ToolCardProps } from './types';
+import { captureCanvas } from '../services/cameraCapture';
+import { useI18n } from '../i18n';
+
+const WIDTH = 600;
+const HEIGHT = 300;
+const FONT_FAMILY = "'Noto Sans Devanagari', ui-sans-serif, system-ui, sans-serif";
+const INK_WIDTH = 16;
+
+function drawGuide(canvas: HTMLCanvasElement, text: string) {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  ctx.clearRect(0, 0, WIDTH, HEIGHT);
+  // Start big and shrink until the word fits with a margin on each side.
+  let size = 220;
+  ctx.font = `700 ${size}px ${FONT_FAMILY}`;
+  const width = ctx.measureText(text).width;
+  if (width > WIDTH * 0.9) {
+    size = Math.floor((size * WIDTH * 0.9) / width);
+    ctx.font = `700 ${size}px ${FONT_FAMILY}`;
+  }
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = '#f1f5f9';
+  ctx.fillText(text, WIDTH / 2, HEIGHT / 2);
+  ctx.setLineDash([10, 8]);
+  ctx.lineWidth = 3;
+  ctx.strokeStyle = '#94a3b8';
+  ctx.strokeText(text, WIDTH / 2, HEIGHT / 2);
+}
+
+const TracingCard: React.FC<ToolCardProps<TracingData>> = ({ data, onImage }) => {
+  const { t } = useI18n();
+  const guideRef = useRef<HTMLCanvasElement>(null);
+  const inkRef = useRef<HTMLCanvasElement>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const [hasInk, setHasInk] = useState(false);
+  const [sent, setSent] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    // Canvas text only uses the web font once it has loaded.
+    document.fonts.load(`700 100px ${FONT_FAMILY}`, data.text)
+      .catch(() => [])
+      .then(() => {
+        if (!cancelled && guideRef.current) drawGuide(guideRef.current, data.text);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [data.text]);
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: ((e.clientX - rect.left) * WIDTH) / rect.width, y: ((e.clientY - rect.top) * HEIGHT) / rect.height };
+  };
+
+  const drawLine = (from: { x: number; y: number }, to: { x: number; y: number }) => {
+    const ctx = inkRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.lineWidth = INK_WIDTH;
+    ctx.strokeStyle = '#f97316';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (sent) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toCanvasPoint(e);
+    lastPointRef.current = point;
+    // A tap leaves a dot.
+    drawLine(point, point);
+    setHasInk(true);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!lastPointRef.current) return;
+    const point = toCanvasPoint(e);
+    drawLine(lastPointRef.current, point);
+    lastPointRef.current = point;
+  };
+
+  const handlePointerUp = () => {
+    lastPointRef.current = null;
+  };
+
+  const clear = () => {
+    inkRef.current?.getContext('2d')?.clearRect(0, 0, WIDTH, HEIGHT);
+    setHasInk(false);
+    setSent(false);
+  };
+
+  const send = () => {
+    if (!guideRef.current || !inkRef.current || sent) return;
+    // The tutor sees the outline and the child's strokes together, on white like a page.
+    const page = document.createElement('canvas');
+    page.width = WIDTH;
+    page.height = HEIGHT;
+    const ctx = page.getContext('2d');
+    if (!ctx) return;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, WIDTH, HEIGHT);
+    ctx.drawImage(guideRef.current, 0, 0);
+    ctx.drawImage(inkRef.current, 0, 0);
+    const image = captureCanvas(page);
+    if (!image) return;
+    setSent(true);
+    onImage(image, t('tracing.traced', { text: data.text }));
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-4">
+      <p className="text-lg md:text-2xl font-bold text-sky-900 text-center">{t('tracing.prompt')}</p>
+      <div className="relative w-full max-w-xl aspect-[2/1] rounded-2xl border-4 border-dashed border-sky-200 bg-white overflow-hidden">
+        <canvas ref={guideRef} width={WIDTH} height={HEIGHT} className="absolute inset-0 w-full h-full" aria-label={data.text} role="img" />
+        <canvas
+          ref={inkRef}
+          width={WIDTH}
+          height={HEIGHT}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          className="absolute inset-0 w-full h-full touch-none cursor-crosshair"
+        />
+      </div>
+      <div className="flex gap-3">
+        <button
+          onClick={clear}
+          disabled={!hasInk}
+          className="px-5 py-2 bg-sky-100 hover:bg-sky-200 disabled:opacity-50 text-sky-800 font-bold rounded-full"
+        >
+          {sent ? t('tracing.again') : t('tracing.clear')}
+        </button>
+        <button
+          onClick={send}
+          disabled={!hasInk || sent}
+          className="px-5 py-2 bg-orange-500 hover:bg-orange-600 disabled:opacity-50 text-white font-bold rounded-full shadow-md"
+        >
+          {sent ? t('tracing.sent') : t('tracing.done')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TracingCard;
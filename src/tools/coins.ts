@@ -0,0 +1,27 @@
+import CoinsCard from './CoinsCard';
+import { MAX_COIN_ITEMS, RUPEE_COINS, RUPEE_NOTES, showCoinsDeclaration } from './declarations';
+import { defineTool } from './types';
+
+export interface CoinsData {
+  /** Denominations in Rupees, one entry per coin or note, largest first. */
+  items: number[];
+  askTotal: boolean;
+}
+
+export const showCoins = defineTool<CoinsData>({
+  declaration: showCoinsDeclaration,
+  handle: (args) => {
+    const items = Array.isArray(args.items) ? args.items.map(Number) : [];
+    const valid = [...RUPEE_COINS, ...RUPEE_NOTES];
+    if (items.length === 0 || items.length > MAX_COIN_ITEMS) return { error: `"items" must list 1 to ${MAX_COIN_ITEMS} coins or notes.` };
+    const unknown = items.filter(i => !valid.includes(i));
+    if (unknown.length > 0) return { error: `There is no ${unknown[0]} Rupee coin or note. Use ${valid.join(', ')}.` };
+
+    const total = items.reduce((sum, i) => sum + i, 0);
+    return {
+      result: `Shown on screen; they add up to ${total} Rupees. Do not say the total before the student answers.`,
+      card: { items: [...items].sort((a, b) => b - a), askTotal: args.askTotal === true },
+    };
+  },
+  Card: CoinsCard,
+});
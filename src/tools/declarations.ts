@@ -0,0 +1,171 @@
+import { Type, type FunctionDeclaration } from '@google/genai';
+
+/**
+ * What the tutor is told about each tool. They live apart from the handlers and cards so the
+ * Sathi server can declare the same tools for turn-by-turn lessons without loading React.
+ */
+
+export const SHAPES = ['circle', 'oval', 'triangle', 'square', 'rectangle', 'pentagon', 'hexagon'] as const;
+export type ShapeName = typeof SHAPES[number];
+
+export const RUPEE_COINS = [1, 2];
+export const RUPEE_NOTES = [5, 10, 20, 50, 100, 500, 1000];
+export const MAX_COIN_ITEMS = 12;
+
+export const MIN_CHOICES = 2;
+export const MAX_CHOICES = 4;
+
+// A letter or a short word; anything longer is too small on a phone to trace with a finger.
+export const MAX_TRACING_CHARACTERS = 6;
+
+export const displayTargetWordDeclaration: FunctionDeclaration = {
+  name: 'displayTargetWord',
+  parameters: {
+    type: Type.OBJECT,
+    description: 'Displays a specific word on the student screen for pronunciation practice.',
+    properties: {
+      word: {
+        type: Type.STRING,
+        description: 'The word to be practiced.',
+      },
+      language: {
+        type: Type.STRING,
+        description: 'The language of the word (English or Nepali).',
+      },
+    },
+    required: ['word', 'language'],
+  },
+};
+
+export const reportPronunciationResultDeclaration: FunctionDeclaration = {
+  name: 'reportPronunciationResult',
+  parameters: {
+    type: Type.OBJECT,
+    description: "Records how well the student pronounced the current target word. Call it after every attempt.",
+    properties: {
+      word: {
+        type: Type.STRING,
+        description: 'The word the student tried to say, exactly as shown with displayTargetWord.',
+      },
+      attempt: {
+        type: Type.INTEGER,
+        description: 'Which try this was for this word, starting at 1.',
+      },
+      verdict: {
+        type: Type.STRING,
+        enum: ['correct', 'close', 'incorrect'],
+        description: 'correct: clearly right. close: recognisable but needs work. incorrect: a different or missing word.',
+      },
+    },
+    required: ['word', 'attempt', 'verdict'],
+  },
+};
+
+export const showMultipleChoiceDeclaration: FunctionDeclaration = {
+  name: 'showMultipleChoice',
+  parameters: {
+    type: Type.OBJECT,
+    description: 'Shows a question with big answer buttons. The student taps one, and their choice comes back as their next message.',
+    properties: {
+      question: {
+        type: Type.STRING,
+        description: 'A short question, in the language you are asking it in.',
+      },
+      options: {
+        type: Type.ARRAY,
+        items: { type: Type.STRING },
+        description: `${MIN_CHOICES} to ${MAX_CHOICES} short answers, one of them correct.`,
+      },
+    },
+    required: ['question', 'options'],
+  },
+};
+
+export const showShapeDeclaration: FunctionDeclaration = {
+  name: 'showShape',
+  parameters: {
+    type: Type.OBJECT,
+    description: 'Draws a large shape on the student screen so they can name it or count its sides and corners.',
+    properties: {
+      shape: {
+        type: Type.STRING,
+        enum: [...SHAPES],
+        description: 'The shape to draw.',
+      },
+      showName: {
+        type: Type.BOOLEAN,
+        description: 'Write the name under the shape. Leave it off when you are asking the student to name it.',
+      },
+      showCorners: {
+        type: Type.BOOLEAN,
+        description: 'Mark and number the corners, to help the student count them.',
+      },
+    },
+    required: ['shape'],
+  },
+};
+
+export const showCoinsDeclaration: FunctionDeclaration = {
+  name: 'showCoins',
+  parameters: {
+    type: Type.OBJECT,
+    description: 'Shows Nepali Rupee coins and notes for counting money. With askTotal, the student can type the total, which comes back as their next message.',
+    properties: {
+      items: {
+        type: Type.ARRAY,
+        items: { type: Type.INTEGER },
+        description: `One entry per coin or note, in Rupees. Coins: ${RUPEE_COINS.join(', ')}. Notes: ${RUPEE_NOTES.join(', ')}. At most ${MAX_COIN_ITEMS}.`,
+      },
+      askTotal: {
+        type: Type.BOOLEAN,
+        description: 'Show a box where the student enters how many Rupees there are in total.',
+      },
+    },
+    required: ['items'],
+  },
+};
+
+export const showTracingExerciseDeclaration: FunctionDeclaration = {
+  name: 'showTracingExercise',
+  parameters: {
+    type: Type.OBJECT,
+    description:
+      'Shows a letter or short word in outline for the student to trace with a finger. ' +
+      'When they are done, their tracing arrives as a picture with the message "I traced ...".',
+    properties: {
+      text: {
+        type: Type.STRING,
+        description: `The letter or word to trace, e.g. "क" or "आमा". At most ${MAX_TRACING_CHARACTERS} characters.`,
+      },
+    },
+    required: ['text'],
+  },
+};
+
+export const awardStarDeclaration: FunctionDeclaration = {
+  name: 'awardStar',
+  parameters: {
+    type: Type.OBJECT,
+    description: 'Gives the student a star, which flies onto their screen and is added to their total. Call it right after a correct answer.',
+    properties: {
+      reason: {
+        type: Type.STRING,
+        description: 'A few words shown with the star, in the lesson language, e.g. "Counted to 20!" or "क सही भन्यौ!".',
+      },
+    },
+    required: ['reason'],
+  },
+};
+
+/** Every tool the tutor can call, in the order they are declared. */
+export const LESSON_TOOL_DECLARATIONS = [
+  displayTargetWordDeclaration,
+  reportPronunciationResultDeclaration,
+  showMultipleChoiceDeclaration,
+  showShapeDeclaration,
+  showCoinsDeclaration,
+  showTracingExerciseDeclaration,
+  awardStarDeclaration,
+];
+
+export const LESSON_TOOL_NAMES = LESSON_TOOL_DECLARATIONS.map(d => d.name!);
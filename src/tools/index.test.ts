@@ -0,0 +1,9 @@
+import { describe, expect, it } from 'vitest';
+import { LESSON_TOOL_DECLARATIONS } from './declarations';
+import { toolDeclarations } from '.';
+
+describe('toolDeclarations', () => {
+  it('declares exactly the tools the Sathi server declares for turn-by-turn lessons', () => {
+    expect(toolDeclarations).toEqual(LESSON_TOOL_DECLARATIONS);
+  });
+});
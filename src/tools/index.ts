@@ -0,0 +1,52 @@
+import type { FunctionCall } from '@google/genai';
+import { showCoins } from './coins';
+import { showMultipleChoice } from './multipleChoice';
+import { displayTargetWord, reportPronunciationResult } from './pronunciation';
+import { showShape } from './shape';
+import { awardStar } from './stars';
+import { showTracingExercise } from './tracing';
+import type { LessonTool, ToolCard, ToolContext } from './types';
+
+export type { ToolCard, ToolContext } from './types';
+
+/** Every tool the tutor can call. Add new tools here, with their declaration in `declarations.ts`; the session declares them all. */
+const LESSON_TOOLS: LessonTool[] = [
+  displayTargetWord,
+  reportPronunciationResult,
+  showMultipleChoice,
+  showShape,
+  showCoins,
+  showTracingExercise,
+  awardStar,
+];
+
+export const toolDeclarations = LESSON_TOOLS.map(tool => tool.declaration);
+
+export function findTool(name: string | undefined): LessonTool | undefined {
+  return LESSON_TOOLS.find(tool => tool.declaration.name === name);
+}
+
+let cardCounter = 0;
+
+/**
+ * Runs one function call from the model. The response always goes back to the model,
+ * including for unknown tools and bad arguments, so it can recover instead of waiting.
+ */
+export function runToolCall(call: FunctionCall, context: ToolContext): { response: Record<string, unknown>; card: ToolCard | null } {
+  const tool = findTool(call.name);
+  if (!tool) return { response: { error: `Unknown tool "${call.name}".` }, card: null };
+
+  try {
+    const outcome = tool.handle(call.args ?? {}, context);
+    if ('error' in outcome) return { response: { error: outcome.error }, card: null };
+    if (outcome.card === undefined || !tool.Card) return { response: { result: outcome.result }, card: null };
+    cardCounter += 1;
+    return {
+      response: { result: outcome.result },
+      card: { id: `${call.id ?? 'card'}-${cardCounter}`, tool: tool.declaration.name!, data: outcome.card },
+    };
+  } catch (err) {
+    console.error(`Tool ${call.name} failed:`, err);
+    return { response: { error: `The ${call.name} tool failed on the device.` }, card: null };
+  }
+}
@@ -0,0 +1,27 @@
+import MultipleChoiceCard from './MultipleChoiceCard';
+import { MAX_CHOICES, MIN_CHOICES, showMultipleChoiceDeclaration } from './declarations';
+import { defineTool } from './types';
+
+export interface MultipleChoiceData {
+  question: string;
+  options: string[];
+}
+
+export const showMultipleChoice = defineTool<MultipleChoiceData>({
+  declaration: showMultipleChoiceDeclaration,
+  handle: (args) => {
+    const question = typeof args.question === 'string' ? args.question.trim() : '';
+    const options = Array.isArray(args.options)
+      ? args.options.filter((o): o is string => typeof o === 'string' && o.trim() !== '').map(o => o.trim())
+      : [];
+    if (!question) return { error: 'Missing "question".' };
+    if (options.length < MIN_CHOICES || options.length > MAX_CHOICES) {
+      return { error: `"options" must have ${MIN_CHOICES} to ${MAX_CHOICES} answers.` };
+    }
+    return {
+      result: "Question shown. Wait for the student's tapped answer before you say whether it is right.",
+      card: { question, options },
+    };
+  },
+  Card: MultipleChoiceCard,
+});
@@ -0,0 +1,23 @@
+import { parsePronunciationResult } from '../services/pronunciationResults';
+import { displayTargetWordDeclaration, reportPronunciationResultDeclaration } from './declarations';
+import { defineTool } from './types';
+
+export const displayTargetWord = defineTool({
+  declaration: displayTargetWordDeclaration,
+  handle: (args, context) => {
+    const { word, language } = args;
+    if (typeof word !== 'string' || !word.trim()) return { error: 'Missing "word".' };
+    context.showTargetWord({ word: word.trim(), language: typeof language === 'string' ? language : 'English' });
+    return { result: 'Word displayed successfully.' };
+  },
+});
+
+export const reportPronunciationResult = defineTool({
+  declaration: reportPronunciationResultDeclaration,
+  handle: (args, context) => {
+    const result = parsePronunciationResult(args, context.getTargetWord());
+    if (typeof result === 'string') return { error: result };
+    context.recordPronunciation(result);
+    return { result: 'Result recorded.' };
+  },
+});
@@ -0,0 +1,32 @@
+import ShapeCard from './ShapeCard';
+import { SHAPES, showShapeDeclaration, type ShapeName } from './declarations';
+import { defineTool } from './types';
+
+export const SHAPE_LABELS: Record<ShapeName, { english: string; nepali: string }> = {
+  circle: { english: 'Circle', nepali: 'वृत्त' },
+  oval: { english: 'Oval', nepali: 'अण्डाकार' },
+  triangle: { english: 'Triangle', nepali: 'त्रिभुज' },
+  square: { english: 'Square', nepali: 'वर्ग' },
+  rectangle: { english: 'Rectangle', nepali: 'आयत' },
+  pentagon: { english: 'Pentagon', nepali: 'पञ्चभुज' },
+  hexagon: { english: 'Hexagon', nepali: 'षट्भुज' },
+};
+
+export interface ShapeData {
+  shape: ShapeName;
+  showName: boolean;
+  showCorners: boolean;
+}
+
+export const showShape = defineTool<ShapeData>({
+  declaration: showShapeDeclaration,
+  handle: (args) => {
+    const shape = args.shape as ShapeName;
+    if (!SHAPES.includes(shape)) return { error: `"shape" must be one of ${SHAPES.join(', ')}.` };
+    return {
+      result: `The ${shape} is on the screen.`,
+      card: { shape, showName: args.showName === true, showCorners: args.showCorners === true },
+    };
+  },
+  Card: ShapeCard,
+});
@@ -0,0 +1,19 @@
+import { awardStarDeclaration } from './declarations';
+import { defineTool } from './types';
+
+// Stars stop meaning much if every sentence earns one.
+const MAX_STARS_PER_LESSON = 20;
+const MAX_REASON_LENGTH = 60;
+
+export const awardStar = defineTool({
+  declaration: awardStarDeclaration,
+  handle: (args, context) => {
+    const reason = typeof args.reason === 'string' ? args.reason.trim().slice(0, MAX_REASON_LENGTH) : '';
+    if (!reason) return { error: 'Missing "reason".' };
+    if (context.starsThisLesson() >= MAX_STARS_PER_LESSON) {
+      return { error: 'The student already has plenty of stars this lesson. Praise them in words instead.' };
+    }
+    const total = context.awardStar(reason);
+    return { result: `Star shown. The student now has ${total} stars.` };
+  },
+});
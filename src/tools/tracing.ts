@@ -0,0 +1,21 @@
+import TracingCard from './TracingCard';
+import { MAX_TRACING_CHARACTERS, showTracingExerciseDeclaration } from './declarations';
+import { defineTool } from './types';
+
+export interface TracingData {
+  text: string;
+}
+
+export const showTracingExercise = defineTool<TracingData>({
+  declaration: showTracingExerciseDeclaration,
+  handle: (args) => {
+    const text = typeof args.text === 'string' ? args.text.trim() : '';
+    if (!text) return { error: '"text" must be the letter or word to trace.' };
+    if ([...text].length > MAX_TRACING_CHARACTERS) return { error: `"text" must be at most ${MAX_TRACING_CHARACTERS} characters; show a longer word in parts.` };
+    return {
+      result: `The outline of "${text}" is on the screen. Wait for the student's tracing before giving feedback.`,
+      card: { text },
+    };
+  },
+  Card: TracingCard,
+});
@@ -0,0 +1,46 @@
+import type React from 'react';
+import type { FunctionDeclaration } from '@google/genai';
+import type { PronunciationAttempt, TargetWord } from '../types';
+import type { ImageBlob } from '../services/cameraCapture';
+
+/** The lesson state a tool handler may read or change, provided by the app for each call. */
+export interface ToolContext {
+  getTargetWord: () => TargetWord | null;
+  showTargetWord: (target: TargetWord) => void;
+  recordPronunciation: (attempt: PronunciationAttempt) => void;
+  starsThisLesson: () => number;
+  /** Shows the star and adds it to the student's rewards; returns their new total. */
+  awardStar: (reason: string) => number;
+}
+
+/**
+ * What a handler hands back: the message for the model, and for tools with a screen,
+ * the data their card renders. Errors go to the model so it can correct the call.
+ */
+export type ToolResult<T> = { error: string } | { result: string; card?: T };
+
+export interface ToolCardProps<T> {
+  data: T;
+  /** Sends the child's answer to the tutor as a tapped message. */
+  onAnswer: (text: string) => void;
+  /** Sends a picture the child made on the card, with a short message, to the tutor. */
+  onImage: (image: ImageBlob, text: string) => void;
+}
+
+export interface LessonTool<T = unknown> {
+  declaration: FunctionDeclaration;
+  handle: (args: Record<string, unknown>, context: ToolContext) => ToolResult<T>;
+  Card?: React.FC<ToolCardProps<T>>;
+}
+
+/** A card on screen, produced by the most recent screen tool call. */
+export interface ToolCard {
+  id: string;
+  tool: string;
+  data: unknown;
+}
+
+/** Lets each tool keep its own card data type while the registry holds them all in one list. */
+export function defineTool<T>(tool: LessonTool<T>): LessonTool {
+  return tool as unknown as LessonTool;
+}
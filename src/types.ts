@@ -1,22 +1,200 @@
-export const Subject = {
-  Nepali: 'Nepali (मेरो नेपाली)',
-  English: 'English',
-  Maths: 'Maths (गणित)',
-  Science: 'Science (विज्ञान)',
-  Computer: 'Computer Science',
-  Social: 'Social Studies (सामाजिक अध्ययन)',
-  Pronunciation: 'Pronunciation Challenge (उच्चारण अभ्यास)',
-  Health: 'Health (स्वास्थ्य अध्ययन)'
-} as const;
-
-export type Subject = typeof Subject[keyof typeof Subject];
+export interface VocabularyItem {
+  word: string;
+  language: 'English' | 'Nepali';
+  meaning?: string;
+}
+
+export interface CurriculumUnit {
+  id: string;
+  title: string;
+  /** Grades this unit is taught in; every grade when left out. */
+  grades?: number[];
+  goals: string[];
+  vocabulary: VocabularyItem[];
+  exampleQuestions: string[];
+}
+
+/** One subject card in the picker, loaded from a JSON file in `src/curriculum`. */
+export interface CurriculumPack {
+  id: string;
+  /** "pronunciation" turns on the word drill: the word deck, review words and word badges. */
+  kind?: 'pronunciation';
+  order?: number;
+  subject: string;
+  icon: string;
+  /** Tailwind background class for the card, e.g. `bg-green-400`. */
+  color: string;
+  description: string;
+  /** Shown instead of `description` when the app is in Nepali. */
+  descriptionNe?: string;
+  /** Subject-wide guidance for the tutor, used for every unit. */
+  guidance: string;
+  /** Extra guidance for one grade, keyed by the grade number ("1" to "5"). */
+  gradeGuidance?: Record<string, string>;
+  units: CurriculumUnit[];
+}
+
+/** Didi (big sister) or Daju (big brother). */
+export type TutorVoice = 'didi' | 'daju';
+
+export type MessageSource = 'voice' | 'typed' | 'tap' | 'photo';
 
 export interface Message {
+  id: string;
   role: 'user' | 'model';
   text: string;
+  source: MessageSource;
+  timestamp: number;
+  // An open turn still receives transcription chunks; it closes on turn-complete or interruption.
+  isComplete: boolean;
+  interrupted?: boolean;
+}
+
+export interface TargetWord {
+  word: string;
+  language: string;
+}
+
+export type PronunciationVerdict = 'correct' | 'close' | 'incorrect';
+
+export interface PronunciationAttempt {
+  word: string;
+  language: string;
+  attempt: number;
+  verdict: PronunciationVerdict;
+  timestamp: number;
+}
+
+/** Attempts keyed by normalized word, oldest first. */
+export type PronunciationResults = Record<string, PronunciationAttempt[]>;
+
+export interface CompletedLesson {
+  subject: string;
+  unitTitle: string;
+  startedAt: number;
+  endedAt: number;
+  messages: Message[];
+  pronunciation: PronunciationResults;
+  /** Every word shown with `displayTargetWord`, in order, without repeats. */
+  wordsShown: string[];
+  safetyEvents: SafetyEvent[];
+  /** Set when the lesson was ended by the session time limit rather than by the student. */
+  endReason?: 'time-limit';
+}
+
+export type PreferredLanguage = 'Nepali' | 'English';
+
+/** What a profile remembers about one finished lesson. */
+export interface LessonSummary {
+  subject: string;
+  unitTitle: string;
+  startedAt: number;
+  durationMs: number;
+  wordsShown: string[];
+}
+
+export type BadgeKind = 'stars' | 'words' | 'streak';
+
+export interface EarnedBadge {
+  id: string;
+  kind: BadgeKind;
+  /** The milestone reached: stars in a subject, words mastered, or days in a row. */
+  count: number;
+  /** Set for star badges, which are earned per subject. */
+  subject?: string;
+  earnedAt: number;
 }
 
-export interface SessionConfig {
-  subject: Subject;
-  instruction: string;
-}
\ No newline at end of file
+/** Stars the tutor awards with `awardStar`, the badges they lead to, and the daily streak. */
+export interface StudentRewards {
+  stars: number;
+  starsBySubject: Record<string, number>;
+  /** Normalized Pronunciation Challenge words the student has said correctly. */
+  masteredWords: string[];
+  badges: EarnedBadge[];
+  streakDays: number;
+  /** Day key of the last finished lesson. */
+  lastLearnedOn?: string;
+}
+
+export interface StudentProfile {
+  id: string;
+  name: string;
+  grade: number;
+  preferredLanguage: PreferredLanguage;
+  avatar: string;
+  createdAt: number;
+  lastActiveAt?: number;
+  /** Most recent first. */
+  history: LessonSummary[];
+  /** Missing on profiles from before rewards were added. */
+  rewards?: StudentRewards;
+}
+
+/** What the teacher chose for a classroom lesson, taught to the whole class on a projector. */
+export interface ClassroomPlan {
+  grade: number;
+  topic: string;
+  goal: string;
+}
+
+/** A safety rule matched during a lesson. Only the rule is kept, never the words that matched. */
+export interface SafetyEvent {
+  timestamp: number;
+  role: 'user' | 'model';
+  ruleId: string;
+  category: string;
+  /** Tutor turns are cut off; student turns are only flagged for parents. */
+  action: 'blocked' | 'flagged';
+}
+
+export interface WordPracticeRecord {
+  word: string;
+  language: string;
+  attempts: number;
+  finalVerdict: PronunciationVerdict | null;
+}
+
+export interface StudentQuestion {
+  text: string;
+  source: MessageSource;
+  timestamp: number;
+}
+
+/** A finished lesson as kept for the teacher/parent dashboard and exports. */
+export interface LessonRecord {
+  id: string;
+  profileId: string;
+  studentName: string;
+  grade: number;
+  subject: string;
+  unitTitle: string;
+  startedAt: number;
+  endedAt: number;
+  durationMs: number;
+  wordsPracticed: WordPracticeRecord[];
+  questions: StudentQuestion[];
+  safetyEvents: SafetyEvent[];
+}
+
+/** One transcript line of a recording, placed by its offset into the audio. */
+export interface RecordingLine {
+  offsetMs: number;
+  role: Message['role'];
+  text: string;
+}
+
+/** The mixed audio of a lesson, kept only when recording is turned on in the settings. */
+export interface LessonRecording {
+  /** Same id as the lesson's `LessonRecord`. */
+  id: string;
+  profileId: string;
+  studentName: string;
+  subject: string;
+  unitTitle: string;
+  startedAt: number;
+  durationMs: number;
+  /** A mono WAV file with both the student and the tutor. */
+  audio: Blob;
+  transcript: RecordingLine[];
+}
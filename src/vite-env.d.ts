@@ -0,0 +1,17 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_TOKEN_ENDPOINT?: string;
+  readonly VITE_TURN_ENDPOINT?: string;
+  readonly VITE_LIVE_TRANSPORT?: 'gemini' | 'mock';
+  readonly VITE_MOCK_LIVE_URL?: string;
+  readonly VITE_MOCK_SCENARIO?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
+
+interface Window {
+  webkitAudioContext?: typeof AudioContext;
+}
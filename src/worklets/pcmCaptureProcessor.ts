@@ -0,0 +1,113 @@
+// Runs on the audio rendering thread. The AudioWorklet globals are not part of the DOM lib,
+// so the few this processor touches are declared here.
+declare const sampleRate: number;
+declare function registerProcessor(name: string, processorCtor: unknown): void;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: AudioWorkletNodeOptions);
+}
+
+export interface PcmCaptureOptions {
+  targetSampleRate: number;
+  frameSize: number;
+}
+
+const FILTER_TAPS = 31;
+
+/** Windowed-sinc low-pass at the target Nyquist, so downsampling does not alias. */
+function designLowPass(cutoffRatio: number): Float32Array {
+  const taps = new Float32Array(FILTER_TAPS);
+  const mid = (FILTER_TAPS - 1) / 2;
+  let sum = 0;
+  for (let i = 0; i < FILTER_TAPS; i++) {
+    const n = i - mid;
+    const sinc = n === 0 ? 2 * cutoffRatio : Math.sin(2 * Math.PI * cutoffRatio * n) / (Math.PI * n);
+    const window = 0.54 - 0.46 * Math.cos((2 * Math.PI * i) / (FILTER_TAPS - 1));
+    taps[i] = sinc * window;
+    sum += taps[i];
+  }
+  for (let i = 0; i < FILTER_TAPS; i++) taps[i] /= sum;
+  return taps;
+}
+
+/**
+ * Resamples the mic from the device rate (usually 44.1 or 48 kHz) to `targetSampleRate`
+ * and posts fixed-size Float32 frames to the main thread.
+ */
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  private readonly step: number;
+  private readonly taps: Float32Array | null;
+  private history: Float32Array;
+  private filtered: Float32Array;
+  private filteredLength = 0;
+  private position = 0;
+  private frame: Float32Array;
+  private frameLength = 0;
+
+  constructor(options: AudioWorkletNodeOptions) {
+    super(options);
+    const { targetSampleRate, frameSize } = options.processorOptions as PcmCaptureOptions;
+    this.step = sampleRate / targetSampleRate;
+    this.taps = this.step > 1 ? designLowPass(0.5 / this.step) : null;
+    this.history = new Float32Array(FILTER_TAPS - 1);
+    this.filtered = new Float32Array(1024);
+    this.frame = new Float32Array(frameSize);
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const input = inputs[0]?.[0];
+    if (!input) return true;
+
+    this.appendFiltered(input);
+
+    // Linear interpolation over the band-limited signal.
+    while (this.position + 1 < this.filteredLength) {
+      const index = Math.floor(this.position);
+      const frac = this.position - index;
+      this.pushSample(this.filtered[index] * (1 - frac) + this.filtered[index + 1] * frac);
+      this.position += this.step;
+    }
+
+    const consumed = Math.floor(this.position);
+    this.filtered.copyWithin(0, consumed, this.filteredLength);
+    this.filteredLength -= consumed;
+    this.position -= consumed;
+    return true;
+  }
+
+  private appendFiltered(input: Float32Array) {
+    if (this.filteredLength + input.length > this.filtered.length) {
+      const grown = new Float32Array((this.filteredLength + input.length) * 2);
+      grown.set(this.filtered.subarray(0, this.filteredLength));
+      this.filtered = grown;
+    }
+
+    if (!this.taps) {
+      this.filtered.set(input, this.filteredLength);
+      this.filteredLength += input.length;
+      return;
+    }
+
+    const taps = this.taps;
+    const window = new Float32Array(this.history.length + input.length);
+    window.set(this.history);
+    window.set(input, this.history.length);
+    for (let i = 0; i < input.length; i++) {
+      let acc = 0;
+      for (let t = 0; t < taps.length; t++) acc += window[i + t] * taps[t];
+      this.filtered[this.filteredLength++] = acc;
+    }
+    this.history = window.slice(window.length - this.history.length);
+  }
+
+  private pushSample(sample: number) {
+    this.frame[this.frameLength++] = sample;
+    if (this.frameLength === this.frame.length) {
+      this.port.postMessage(this.frame, [this.frame.buffer]);
+      this.frame = new Float32Array(this.frame.length);
+      this.frameLength = 0;
+    }
+  }
+}
+
+registerProcessor('pcm-capture', PcmCaptureProcessor);
@@ -4,6 +4,12 @@ import react from '@vitejs/plugin-react'
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
+  server: {
+    // The Sathi server (`npm run server`) holds the Gemini key and mints session tokens.
+    proxy: {
+      '/api': 'http://localhost:8788',
+    },
+  },
   define: {
     'process.env': {} 
   }